@@ -0,0 +1,63 @@
+import { DIKey } from '@/distage/model/DIKey';
+
+/**
+ * The instance a cycle proxy forwards to, once it is produced
+ */
+interface ProxySlot {
+  key: DIKey;
+  instance?: object;
+}
+
+const slots = new WeakMap<object, ProxySlot>();
+
+/**
+ * Create a placeholder for a class binding in a dependency cycle. Dependents produced
+ * before the class receive the placeholder, which forwards every operation to the
+ * instance once resolveCycleProxy() has been called with it.
+ * @internal
+ */
+export function createCycleProxy(key: DIKey, prototype: object): object {
+  const slot: ProxySlot = { key };
+
+  const target = (): object => {
+    if (slot.instance === undefined) {
+      throw new Error(`Proxy for ${key.toString()} was used before the instance was produced`);
+    }
+    return slot.instance;
+  };
+
+  const proxy = new Proxy(Object.create(prototype), {
+    get: (_, property) => Reflect.get(target(), property),
+    set: (_, property, value) => Reflect.set(target(), property, value),
+    has: (_, property) => Reflect.has(target(), property),
+    deleteProperty: (_, property) => Reflect.deleteProperty(target(), property),
+    ownKeys: () => Reflect.ownKeys(target()),
+    defineProperty: (_, property, descriptor) => Reflect.defineProperty(target(), property, descriptor),
+    getOwnPropertyDescriptor: (_, property) => {
+      const descriptor = Reflect.getOwnPropertyDescriptor(target(), property);
+      // The placeholder itself has no own properties, which a non-configurable one would contradict
+      return descriptor && { ...descriptor, configurable: true };
+    },
+    // instanceof works before the instance is produced
+    getPrototypeOf: () => slot.instance !== undefined ? Reflect.getPrototypeOf(slot.instance) : prototype,
+  });
+
+  slots.set(proxy, slot);
+  return proxy;
+}
+
+/**
+ * Check if a value is a placeholder created by createCycleProxy()
+ * @internal
+ */
+export function isCycleProxy(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && slots.has(value);
+}
+
+/**
+ * Make a cycle proxy forward to the produced instance
+ * @internal
+ */
+export function resolveCycleProxy(proxy: object, instance: object): void {
+  slots.get(proxy)!.instance = instance;
+}
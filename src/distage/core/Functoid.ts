@@ -1,17 +1,7 @@
 import { DIKey } from '@/distage/model/DIKey';
 import { getAllParameterIds } from '@/distage/model/Id';
 import { getConstructorTypes } from '@/distage/model/Reflected';
-
-/**
- * Helper type to extract instance types from a tuple of constructor types.
- * Maps [typeof Database, typeof Config] -> [Database, Config]
- */
-type InstanceTypes<T extends readonly any[]> = T extends readonly [infer First, ...infer Rest]
-  ? [
-      First extends abstract new (...args: any[]) => infer R ? R : First,
-      ...InstanceTypes<Rest>
-    ]
-  : [];
+import { DependencyType, InstanceTypes, dependencyKey } from '@/distage/model/Dependency';
 
 /**
  * Represents information about a function parameter
@@ -42,6 +32,7 @@ export interface ParameterInfo {
 export class Functoid<T = any> {
   private dependencies: DIKey[] = [];
   private readonly isAsync: boolean;
+  private implementation?: unknown;
 
   constructor(
     private readonly fn: (...args: any[]) => T | Promise<T>,
@@ -77,13 +68,10 @@ export class Functoid<T = any> {
 
     if (pendingIds && pendingIds.size > 0) {
       // Merge types with IDs
-      this.dependencies = types.map((type, index) => {
-        const id = pendingIds.get(index);
-        return id ? DIKey.named(type, id) : DIKey.of(type);
-      });
+      this.dependencies = types.map((type, index) => dependencyKey(type, pendingIds.get(index)));
       delete (this as any)._pendingIds;
     } else {
-      this.dependencies = types.map(type => DIKey.of(type));
+      this.dependencies = types.map(type => dependencyKey(type));
     }
     return this;
   }
@@ -156,6 +144,46 @@ export class Functoid<T = any> {
     return this.fn;
   }
 
+  /**
+   * Get what this functoid was created from: the class for fromConstructor(),
+   * the value for constant(), and the function itself otherwise.
+   * Used to tell whether two bindings construct the same thing.
+   */
+  getImplementation(): unknown {
+    return this.implementation !== undefined ? this.implementation : this.fn;
+  }
+
+  /**
+   * Get the parameter names of the function, or of the constructor for fromConstructor(),
+   * parsed from its source. Destructured parameters have no name and are returned as ''.
+   * Returns [] when the source has no parameter list, e.g. for a class without its own constructor.
+   *
+   * Names are only as reliable as the source: minifiers rename parameters, so prefer matching
+   * parameters by DIKey in code that may be minified.
+   */
+  getParameterNames(): string[] {
+    const target = typeof this.implementation === 'function' ? this.implementation : this.fn;
+    const source = Function.prototype.toString.call(target);
+
+    const arrowParam = /^(?:async\s+)?([\w$]+)\s*=>/.exec(source);
+    if (arrowParam) {
+      return [arrowParam[1]];
+    }
+
+    const open = source.startsWith('class')
+      ? /\bconstructor\s*\(/.exec(source)
+      : /^[^(]*\(/.exec(source);
+    const params = open ? splitParameters(source, open.index + open[0].length) : undefined;
+    if (!params || (params.length === 1 && params[0] === '')) {
+      return [];
+    }
+
+    return params.map(param => {
+      const name = param.split('=')[0].trim().replace(/^\.\.\./, '');
+      return /^[\w$]+$/.test(name) ? name : '';
+    });
+  }
+
   /**
    * Create a Functoid from a constructor.
    *
@@ -165,6 +193,7 @@ export class Functoid<T = any> {
    */
   static fromConstructor<T>(ctor: new (...args: any[]) => T): Functoid<T> {
     const functoid = new Functoid((...args: any[]) => new ctor(...args));
+    functoid.implementation = ctor;
 
     // Get parameter types from @Injectable decorator (if present)
     const types = getConstructorTypes(ctor);
@@ -183,12 +212,12 @@ export class Functoid<T = any> {
             // If the id is a symbol, treat it as a token, otherwise as a named binding
             return typeof id === 'symbol'
               ? DIKey.token(id)
-              : DIKey.named(type, id);
+              : dependencyKey(type, id);
           }
-          return DIKey.of(type);
+          return dependencyKey(type);
         });
       } else {
-        functoid.dependencies = types.map(type => DIKey.of(type));
+        functoid.dependencies = types.map(type => dependencyKey(type));
       }
     } else if (paramIds.size > 0) {
       // If there are @Id decorators but no types specified, store IDs for later
@@ -237,12 +266,12 @@ export class Functoid<T = any> {
    *   Functoid.fromFunction([Database], (db, cfg) => ...)  // ✗ Error: expected 1 param, got 2
    *   Functoid.fromFunction([Config, Database], (db, cfg) => ...)  // ✗ Error: db is Config, not Database
    */
-  static fromFunction<const Args extends readonly (abstract new (...args: any[]) => any)[], R>(
+  static fromFunction<const Args extends readonly DependencyType[], R>(
     types: Args,
     fn: (...params: InstanceTypes<Args>) => R | Promise<R>
   ): Functoid<R> {
     const functoid = new Functoid(fn as (...args: any[]) => R | Promise<R>);
-    functoid.dependencies = (types as readonly any[]).map(type => DIKey.of(type));
+    functoid.dependencies = types.map(type => dependencyKey(type));
     return functoid;
   }
 
@@ -251,6 +280,7 @@ export class Functoid<T = any> {
    */
   static constant<T>(value: T): Functoid<T> {
     const functoid = new Functoid(() => value);
+    functoid.implementation = value;
     functoid.dependencies = []; // Constants have no dependencies
     return functoid;
   }
@@ -273,3 +303,56 @@ export class Functoid<T = any> {
     return mapped;
   }
 }
+
+/**
+ * Split the parameter list starting at `start`, just after its opening parenthesis, into the
+ * source of each parameter. Commas and parentheses nested in default values, strings and
+ * comments are skipped. Returns undefined if the list is not closed.
+ */
+function splitParameters(source: string, start: number): string[] | undefined {
+  const params: string[] = [];
+  let current = '';
+  let depth = 0;
+
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+
+    if (char === '/' && (source[i + 1] === '/' || source[i + 1] === '*')) {
+      const end = source[i + 1] === '/' ? source.indexOf('\n', i) : source.indexOf('*/', i + 2) + 1;
+      if (end <= 0) {
+        return undefined;
+      }
+      i = end;
+      continue;
+    }
+    if (char === '\'' || char === '"' || char === '`') {
+      let end = i + 1;
+      while (end < source.length && source[end] !== char) {
+        end += source[end] === '\\' ? 2 : 1;
+      }
+      current += source.slice(i, end + 1);
+      i = end;
+      continue;
+    }
+
+    if (char === '(' || char === '[' || char === '{') {
+      depth++;
+    } else if (char === ')' || char === ']' || char === '}') {
+      if (depth === 0) {
+        // Nothing after a trailing comma
+        if (current.trim() !== '' || params.length === 0) {
+          params.push(current.trim());
+        }
+        return params;
+      }
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      params.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  return undefined;
+}
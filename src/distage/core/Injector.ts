@@ -1,10 +1,18 @@
 import { DIKey, Callable } from '@/distage/model/DIKey';
 import { Activation } from '@/distage/model/Activation';
+import { BindingKind } from '@/distage/model/Binding';
 import { ModuleDef } from '@/distage/dsl/ModuleDef';
-import { Planner } from '@/distage/core/Planner';
+import { Planner, CycleMode } from '@/distage/core/Planner';
 import { Producer } from '@/distage/core/Producer';
 import { Locator } from '@/distage/core/Locator';
-import { Plan } from '@/distage/core/Plan';
+import { Plan, PlanningResult } from '@/distage/core/Plan';
+
+/**
+ * Which keys an Injector plans:
+ * - 'explicit': only the requested roots and their dependencies, everything else is pruned
+ * - 'everything': additionally every key that has a binding valid under the activation
+ */
+export type RootMode = 'explicit' | 'everything';
 
 /**
  * Options for creating an Injector
@@ -16,11 +24,25 @@ export interface InjectorOptions {
   activation?: Activation;
 
   /**
-   * Whether to automatically include all bindings as roots
-   * (default: false, only explicitly requested roots are included)
+   * Which keys to plan (default: 'explicit').
+   * With 'everything', keys whose bindings don't match the activation are skipped.
+   * Keys that are not planned are listed by Plan.getPrunedKeys().
+   */
+  roots?: RootMode;
+
+  /**
+   * @deprecated Use `roots: 'everything'`
    */
   autoRoots?: boolean;
 
+  /**
+   * How to handle dependency cycles (default: 'fail').
+   * With 'proxy', a cycle through a class binding is resolved by giving the dependent
+   * that closes it a proxy, which forwards to the instance once it is produced.
+   * Other cycles still fail with a CircularDependencyError stating why.
+   */
+  cycles?: CycleMode;
+
   /**
    * Parent locator for subcontexts
    * When set, the planner can reference bindings from the parent
@@ -35,6 +57,7 @@ export interface InjectorOptions {
  * Supports both synchronous and asynchronous production:
  * - produce() for synchronous dependency graphs
  * - produceAsync() for graphs containing async factories
+ * - produceRun() to run a function with a Locator that is closed afterwards
  *
  * Usage:
  *   const injector = new Injector();
@@ -65,13 +88,24 @@ export class Injector {
     options: InjectorOptions = {},
   ): Plan {
     const activation = options.activation || Activation.empty();
+    const actualRoots = this.resolveRoots(module, roots, activation, options);
 
-    // If autoRoots is enabled, include all bindings as roots
-    const actualRoots = options.autoRoots
-      ? this.getAllKeys(module)
-      : roots;
+    return this.planner.plan(module, actualRoots, activation, options.parentLocator, options.cycles);
+  }
 
-    return this.planner.plan(module, actualRoots, activation, options.parentLocator);
+  /**
+   * Create a plan for the given module and roots, collecting every planning error
+   * instead of failing on the first one (see Planner.planOrErrors())
+   */
+  planOrErrors(
+    module: ModuleDef,
+    roots: DIKey[],
+    options: InjectorOptions = {},
+  ): PlanningResult {
+    const activation = options.activation || Activation.empty();
+    const actualRoots = this.resolveRoots(module, roots, activation, options);
+
+    return this.planner.planOrErrors(module, actualRoots, activation, options.parentLocator, options.cycles);
   }
 
   /**
@@ -187,9 +221,51 @@ export class Injector {
   }
 
   /**
-   * Get all keys from a module
+   * Plan and produce a Locator, run a function with it and always close it afterwards.
+   *
+   * This is the resource-safe entry point: resources acquired before a failing
+   * production step are released, and resources of a successfully produced
+   * Locator are released once the function completes or throws.
+   * Release errors are reported as AggregateLifecycleError next to the original failure.
+   *
+   * Example:
+   *   const result = await injector.produceRun(module, [DIKey.of(App)], async (locator) => {
+   *     return await locator.get(DIKey.of(App)).run();
+   *   });
    */
-  private getAllKeys(module: ModuleDef): DIKey[] {
-    return module.getBindings().map(b => b.key);
+  async produceRun<R>(
+    module: ModuleDef,
+    roots: DIKey[],
+    fn: (locator: Locator) => R | Promise<R>,
+    options: InjectorOptions = {},
+  ): Promise<R> {
+    const locator = await this.produceAsync(module, roots, options);
+    return await locator.use(fn);
+  }
+
+  /**
+   * Get the roots to plan for the configured root mode
+   */
+  private resolveRoots(
+    module: ModuleDef,
+    roots: DIKey[],
+    activation: Activation,
+    options: InjectorOptions,
+  ): DIKey[] {
+    const mode = options.roots ?? (options.autoRoots ? 'everything' : 'explicit');
+    if (mode === 'explicit') {
+      return roots;
+    }
+
+    // Every key with at least one binding valid under the activation, each key once.
+    // Modifiers don't bind their key, they only change the value of one bound elsewhere.
+    const allRoots = new Map(roots.map(key => [key.toMapKey(), key]));
+    for (const binding of module.getBindings()) {
+      const keyStr = binding.key.toMapKey();
+      if (binding.kind !== BindingKind.Modifier && !allRoots.has(keyStr) && binding.tags.matches(activation)) {
+        allRoots.set(keyStr, binding.key);
+      }
+    }
+    return Array.from(allRoots.values());
   }
 }
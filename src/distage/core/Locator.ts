@@ -1,9 +1,11 @@
 import { DIKey, Callable } from '@/distage/model/DIKey';
-import { Lifecycle, LifecycleManager } from '@/distage/model/Lifecycle';
+import { LifecycleManager, releaseAfterFailure } from '@/distage/model/Lifecycle';
 
 /**
  * Locator provides access to instances in the dependency injection container.
  * It's the result of executing a plan.
+ *
+ * Transient keys have no instance of their own: every lookup creates a new one.
  */
 export interface Locator {
   /**
@@ -12,6 +14,13 @@ export interface Locator {
    */
   get<T>(key: DIKey<T>): T;
 
+  /**
+   * Create a new instance of a planned key from its plan step. Its transient dependencies
+   * are created anew, singleton ones are shared with this locator.
+   * @throws Error if the key is not planned, or its binding cannot be created synchronously
+   */
+  create<T>(key: DIKey<T>): T;
+
   /**
    * Get an instance by type
    * @throws Error if the type is not found
@@ -45,29 +54,64 @@ export interface Locator {
   getNamedSet<T>(type: Callable<T>, id: string): Set<T>;
 
   /**
-   * Get all keys in the locator
+   * Get all keys in the locator.
+   * The keys are the ones the instances were planned for, so they can be passed back to get().
+   * The values of modified keys before their modifiers are applied are not included.
    */
   keys(): IterableIterator<DIKey>;
 
+  /**
+   * Get all keys in the locator together with their instances.
+   * Transient keys are not included, as they have no instance.
+   */
+  entries(): IterableIterator<[DIKey, any]>;
+
+  /**
+   * Get every instance bound to the given type, under any @Id, together with its key.
+   * Sets of the type are not included.
+   */
+  instancesOf<T>(type: Callable<T>): Array<[DIKey<T>, T]>;
+
+  /**
+   * Find every instance whose prototype chain includes the given type, whatever key it is bound to.
+   * Instances bound under several keys (e.g. through aliases) are returned once.
+   */
+  findAllAssignableTo<T>(type: Callable<T>): T[];
+
   /**
    * Release all resources managed by this locator (for lifecycle-aware locators)
    * This is a no-op for basic locators without lifecycle management.
    */
   close(): Promise<void>;
+
+  /**
+   * Run a function with this locator and close it afterwards, even if the function throws.
+   * If both the function and close() fail, the errors are reported together in an AggregateError.
+   */
+  use<R>(fn: (locator: this) => R | Promise<R>): Promise<R>;
 }
 
 /**
  * Implementation of Locator
  */
 export class LocatorImpl implements Locator {
+  /**
+   * @param instances instances by DIKey.toMapKey()
+   * @param keys the DIKey of each instance, by DIKey.toMapKey()
+   * @param lifecycleManager manager releasing the resources acquired for the instances
+   * @param creators functions creating a new instance of each planned key, by DIKey.toMapKey().
+   *   Keys with a creator but no instance are transient.
+   */
   constructor(
     private readonly instances: Map<string, any>,
+    private readonly keyByMapKey: Map<string, DIKey>,
     private readonly lifecycleManager?: LifecycleManager,
+    private readonly creators: Map<string, () => any> = new Map(),
   ) {}
 
   get<T>(key: DIKey<T>): T {
     const keyStr = key.toMapKey();
-    const instance = this.instances.get(keyStr);
+    const instance = this.isTransient(keyStr) ? this.create(key) : this.instances.get(keyStr);
 
     if (instance === undefined) {
       throw new Error(`No instance found for key: ${key.toString()}`);
@@ -84,14 +128,22 @@ export class LocatorImpl implements Locator {
     return this.get(DIKey.named(type, id));
   }
 
+  create<T>(key: DIKey<T>): T {
+    const creator = this.creators.get(key.toMapKey());
+    if (!creator) {
+      throw new Error(`No plan step found for key: ${key.toString()}`);
+    }
+    return creator();
+  }
+
   find<T>(key: DIKey<T>): T | undefined {
     const keyStr = key.toMapKey();
-    return this.instances.get(keyStr);
+    return this.isTransient(keyStr) ? this.create(key) : this.instances.get(keyStr);
   }
 
   has(key: DIKey): boolean {
     const keyStr = key.toMapKey();
-    return this.instances.has(keyStr);
+    return this.instances.has(keyStr) || this.isTransient(keyStr);
   }
 
   getSet<T>(type: Callable<T>): Set<T> {
@@ -103,12 +155,34 @@ export class LocatorImpl implements Locator {
   }
 
   *keys(): IterableIterator<DIKey> {
-    for (const [keyStr, _] of this.instances) {
-      // Note: We lose some type information here when reconstructing DIKeys
-      // This is a limitation of the string-based map key approach
-      // In a production system, you might want to store DIKey objects directly
-      yield this.reconstructKey(keyStr);
+    for (const [key] of this.entries()) {
+      yield key;
     }
+    for (const keyStr of this.creators.keys()) {
+      const key = this.keyByMapKey.get(keyStr)!;
+      if (this.isTransient(keyStr) && !key.isModified()) {
+        yield key;
+      }
+    }
+  }
+
+  *entries(): IterableIterator<[DIKey, any]> {
+    for (const [keyStr, instance] of this.instances) {
+      // The values before the modifiers of a key are only planned to be modified
+      const key = this.keyByMapKey.get(keyStr)!;
+      if (!key.isModified()) {
+        yield [key, instance];
+      }
+    }
+  }
+
+  instancesOf<T>(type: Callable<T>): Array<[DIKey<T>, T]> {
+    return Array.from(this.entries())
+      .filter(([key]) => key.getCallable() === type);
+  }
+
+  findAllAssignableTo<T>(type: Callable<T>): T[] {
+    return findAssignable(Array.from(this.entries(), ([, instance]) => instance), type);
   }
 
   /**
@@ -121,19 +195,38 @@ export class LocatorImpl implements Locator {
     }
   }
 
-  /**
-   * Reconstruct a DIKey from its string representation
-   * This is a simplified version and may not work for all cases
-   */
-  private reconstructKey(keyStr: string): DIKey {
-    // This is a simplified implementation
-    // In production, you'd want to store the actual DIKey objects
-    const [typeName, id, isSetStr] = keyStr.split('|');
-    const isSet = isSetStr === 'true';
+  async use<R>(fn: (locator: this) => R | Promise<R>): Promise<R> {
+    let result: R;
+    try {
+      result = await fn(this);
+    } catch (error) {
+      return await releaseAfterFailure(error, () => this.close());
+    }
+    await this.close();
+    return result;
+  }
+
+  private isTransient(keyStr: string): boolean {
+    return !this.instances.has(keyStr) && this.creators.has(keyStr);
+  }
+}
 
-    // We can't fully reconstruct the type constructor from just the name
-    // So this is mainly useful for debugging/iteration
-    // For actual use, clients should use the DIKey they already have
-    return { toString: () => keyStr } as any;
+/**
+ * Collect the distinct instances whose prototype chain includes the prototype of the type
+ * @internal
+ */
+export function findAssignable<T>(instances: Iterable<unknown>, type: Callable<T>): T[] {
+  const found = new Set<T>();
+  for (const instance of instances) {
+    if (instance === null || instance === undefined) {
+      continue;
+    }
+    for (let proto = Object.getPrototypeOf(instance); proto !== null; proto = Object.getPrototypeOf(proto)) {
+      if (proto === type.prototype) {
+        found.add(instance as T);
+        break;
+      }
+    }
   }
+  return Array.from(found);
 }
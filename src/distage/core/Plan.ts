@@ -1,23 +1,44 @@
 import { DIKey } from '@/distage/model/DIKey';
-import { AnyBinding } from '@/distage/model/Binding';
+import { AnyBinding, BindingScope } from '@/distage/model/Binding';
+import { BindingOrigin } from '@/distage/model/BindingOrigin';
+import { Axis } from '@/distage/model/Activation';
+import { PlanRenderer } from '@/distage/core/PlanRenderer';
+import { PlanJSON, PlanSerializer } from '@/distage/core/PlanJSON';
+import { PlanDiff } from '@/distage/core/PlanDiff';
 
 /**
  * A step in the execution plan that describes how to create an instance
  */
 export interface PlanStep {
   key: DIKey;
-  binding: AnyBinding;
+  /** The selected binding, or the bindings of all elements for a set */
+  binding: AnyBinding | AnyBinding[];
   dependencies: DIKey[];
+  /** Transient steps are run again for every dependent and every lookup */
+  scope: BindingScope;
+  /**
+   * Dependencies that close a cycle and are produced after this step.
+   * They are resolved to a proxy that forwards to the instance once it exists.
+   */
+  proxiedDependencies?: DIKey[];
+  /**
+   * Runtime parameters inferred by the planner for an assisted factory bound with factoryOf()
+   * without runtime types (see AssistedFactoryBinding.inferRuntimeParams)
+   */
+  runtimeParams?: number[];
 }
 
 /**
  * A plan is an ordered sequence of steps to execute to build a dependency graph.
  * The plan is topologically sorted so that dependencies are created before dependents.
+ * Bindings not reachable from the roots are pruned (see getPrunedKeys()).
  */
 export class Plan {
   constructor(
     private readonly steps: PlanStep[],
     private readonly roots: Set<DIKey>,
+    private readonly prunedKeys: DIKey[] = [],
+    private readonly absentKeys: DIKey[] = [],
   ) {}
 
   /**
@@ -34,6 +55,28 @@ export class Plan {
     return this.roots;
   }
 
+  /**
+   * Get the keys that have bindings in the module but are not part of the plan,
+   * because no root depends on them
+   */
+  getPrunedKeys(): readonly DIKey[] {
+    return this.prunedKeys;
+  }
+
+  /**
+   * Get the optional dependencies that have no binding and are resolved to undefined
+   */
+  getAbsentKeys(): readonly DIKey[] {
+    return this.absentKeys;
+  }
+
+  /**
+   * Check if a key is an absent optional dependency
+   */
+  isAbsent(key: DIKey): boolean {
+    return this.absentKeys.some(absent => absent.equals(key));
+  }
+
   /**
    * Get a specific step by key
    */
@@ -61,40 +104,146 @@ export class Plan {
   toString(): string {
     const lines = ['Plan:'];
     for (const step of this.steps) {
-      const deps = step.dependencies.map(d => d.toString()).join(', ');
-      lines.push(`  ${step.key.toString()} <- [${deps}]`);
+      const proxied = step.proxiedDependencies ?? [];
+      const deps = step.dependencies
+        .map(d => proxied.some(p => p.equals(d))
+          ? `${d.toString()} (proxy)`
+          : d.modifier ? `${d.toString()} (${d.modifier})` : d.toString())
+        .join(', ');
+      const origins = (Array.isArray(step.binding) ? step.binding : [step.binding])
+        .filter(b => b.origin)
+        .map(b => b.origin!.toString());
+      const definedAt = origins.length > 0 ? `  defined at ${origins.join(', ')}` : '';
+      const scope = step.scope === 'transient' ? ' (transient)' : '';
+      lines.push(`  ${step.key.toString()} <- [${deps}]${scope}${definedAt}`);
+    }
+    for (const key of this.absentKeys) {
+      lines.push(`  ${key.toString()} <- absent`);
     }
     return lines.join('\n');
   }
+
+  /**
+   * Get a stable JSON description of the plan (see PlanJSON for the schema).
+   * Also used by JSON.stringify(plan); read it back with PlanDescription.fromJSON().
+   */
+  toJSON(): PlanJSON {
+    return PlanSerializer.plan(this);
+  }
+
+  /**
+   * Render the dependency graph as Graphviz DOT (see PlanRenderer)
+   */
+  toDot(): string {
+    return PlanRenderer.toDot(this);
+  }
+
+  /**
+   * Render the dependency graph as a Mermaid flowchart (see PlanRenderer)
+   */
+  toMermaid(): string {
+    return PlanRenderer.toMermaid(this);
+  }
+
+  /**
+   * Compare this plan with another one (see PlanDiff)
+   */
+  diff(other: Plan): PlanDiff {
+    return PlanDiff.between(this, other);
+  }
 }
 
 /**
  * Errors that can occur during planning
  */
 export class PlanningError extends Error {
-  constructor(message: string) {
+  /**
+   * @param path Dependency path from a root down to the key that failed to plan (empty if unknown)
+   */
+  constructor(
+    message: string,
+    public readonly path: DIKey[] = [],
+  ) {
     super(message);
     this.name = 'PlanningError';
   }
 }
 
+/**
+ * An axis choice required along a dependency path, with the binding on the path that introduced it
+ */
+export interface PathConstraint {
+  axis: Axis;
+  choices: string[];
+  introducedBy: DIKey;
+  origin?: BindingOrigin;
+}
+
+/**
+ * Render a dependency path as an indented tree, from the root down to the failing key
+ */
+function renderPath(path: DIKey[]): string {
+  if (path.length < 2) {
+    return '';
+  }
+  const lines = path.map((key, depth) => `\n  ${'  '.repeat(depth)}${depth > 0 ? '└─ ' : ''}${key.toString()}`);
+  return `\nDependency path:${lines.join('')}`;
+}
+
+/**
+ * Describe where a binding was defined, for error messages
+ */
+function definedAt(origin: BindingOrigin | undefined): string {
+  return origin ? ` (defined at ${origin.toString()})` : '';
+}
+
+/**
+ * List candidate bindings with their tags and origins, one per line
+ */
+function describeCandidates(bindings: AnyBinding[]): string {
+  return bindings
+    .map(binding => {
+      const tags = binding.tags.describe();
+      const tagsStr = tags.length > 0 ? ` [${tags.join(', ')}]` : '';
+      return `\n  - ${binding.kind} binding${tagsStr}${definedAt(binding.origin)}`;
+    })
+    .join('');
+}
+
 export class MissingDependencyError extends PlanningError {
   constructor(
     public readonly key: DIKey,
     public readonly requiredBy?: DIKey,
+    public readonly requiredByOrigin?: BindingOrigin,
+    path: DIKey[] = [],
+    public readonly suggestions: string[] = [],
   ) {
     const msg = requiredBy
-      ? `Missing binding for ${key.toString()}, required by ${requiredBy.toString()}`
+      ? `Missing binding for ${key.toString()}, required by ${requiredBy.toString()}${definedAt(requiredByOrigin)}`
       : `Missing binding for ${key.toString()}`;
-    super(msg);
+    const hints = suggestions.length > 0
+      ? `\nDid you mean:${suggestions.map(s => `\n  - ${s}`).join('')}`
+      : '';
+    super(msg + hints + renderPath(path), path);
     this.name = 'MissingDependencyError';
   }
 }
 
 export class CircularDependencyError extends PlanningError {
-  constructor(public readonly cycle: DIKey[]) {
+  /**
+   * @param reason Why the cycle could not be resolved with a proxy (only set with `cycles: 'proxy'`)
+   */
+  constructor(
+    public readonly cycle: DIKey[],
+    public readonly origins: (BindingOrigin | undefined)[] = [],
+    public readonly reason?: string,
+  ) {
     const cycleStr = cycle.map(k => k.toString()).join(' -> ');
-    super(`Circular dependency detected: ${cycleStr}`);
+    const originsStr = origins
+      .map((origin, i) => origin ? `\n  ${cycle[i].toString()}${definedAt(origin)}` : '')
+      .join('');
+    const reasonStr = reason ? `\nCannot be resolved with a proxy: ${reason}` : '';
+    super(`Circular dependency detected: ${cycleStr}${reasonStr}${originsStr}`, cycle);
     this.name = 'CircularDependencyError';
   }
 }
@@ -103,26 +252,90 @@ export class ConflictingBindingsError extends PlanningError {
   constructor(
     public readonly key: DIKey,
     public readonly bindings: AnyBinding[],
+    path: DIKey[] = [],
   ) {
     super(
       `Multiple bindings found for ${key.toString()} with same specificity. ` +
-      `Use axis tagging to disambiguate.`
+      `Use axis tagging to disambiguate.` +
+      describeCandidates(bindings) +
+      renderPath(path),
+      path,
     );
     this.name = 'ConflictingBindingsError';
   }
 }
 
 export class AxisConflictError extends PlanningError {
+  /** Summary of the path constraints, e.g. "Env must be Prod" */
+  public readonly pathConstraints: string;
+
   constructor(
     public readonly key: DIKey,
     public readonly requiredBy: DIKey | undefined,
-    public readonly pathConstraints: string,
+    public readonly constraints: PathConstraint[],
+    public readonly requiredByOrigin?: BindingOrigin,
+    public readonly candidates: AnyBinding[] = [],
+    path: DIKey[] = [],
   ) {
+    const pathConstraints = constraints
+      .map(c => `${c.axis.name} must be ${c.choices.join(' or ')}`)
+      .join(', ');
     const msg = requiredBy
-      ? `No valid binding found for ${key.toString()}, required by ${requiredBy.toString()}. ` +
-        `Path constraints: ${pathConstraints}`
+      ? `No valid binding found for ${key.toString()}, required by ${requiredBy.toString()}` +
+        `${definedAt(requiredByOrigin)}. Path constraints: ${pathConstraints}`
       : `No valid binding found for ${key.toString()}. Path constraints: ${pathConstraints}`;
-    super(msg);
+    const sources = constraints
+      .map(c => `\n  - ${c.axis.name}:${c.choices.join('|')} introduced by ${c.introducedBy.toString()}${definedAt(c.origin)}`)
+      .join('');
+    super(
+      msg +
+      (sources ? `\nConstraints on the path:${sources}` : '') +
+      (candidates.length > 0 ? `\nRejected candidates:${describeCandidates(candidates)}` : '') +
+      renderPath(path),
+      path,
+    );
+    this.pathConstraints = pathConstraints;
     this.name = 'AxisConflictError';
   }
 }
+
+/**
+ * All errors found by an accumulating planning run (see Planner.planOrErrors()).
+ * Each error carries and renders the dependency path that led to it.
+ */
+export class PlanningFailure extends PlanningError {
+  constructor(public readonly errors: PlanningError[]) {
+    const groups = Array.from(groupByKind(errors)).map(([kind, group]) =>
+      `${kind} (${group.length}):\n` +
+      group.map(error => `  - ${error.message.split('\n').join('\n    ')}`).join('\n')
+    );
+    super(`Planning failed with ${errors.length} error(s):\n${groups.join('\n')}`);
+    this.name = 'PlanningFailure';
+  }
+
+  /**
+   * Get the errors grouped by kind (error name, e.g. 'MissingDependencyError'),
+   * in the order each kind was first encountered
+   */
+  byKind(): Map<string, PlanningError[]> {
+    return groupByKind(this.errors);
+  }
+}
+
+function groupByKind(errors: PlanningError[]): Map<string, PlanningError[]> {
+  const groups = new Map<string, PlanningError[]>();
+  for (const error of errors) {
+    if (!groups.has(error.name)) {
+      groups.set(error.name, []);
+    }
+    groups.get(error.name)!.push(error);
+  }
+  return groups;
+}
+
+/**
+ * Result of an accumulating planning run: either a plan or every error found
+ */
+export type PlanningResult =
+  | { success: true; plan: Plan }
+  | { success: false; failure: PlanningFailure };
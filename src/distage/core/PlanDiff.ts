@@ -0,0 +1,239 @@
+import { DIKey } from '@/distage/model/DIKey';
+import { AnyBinding, BindingKind } from '@/distage/model/Binding';
+import type { Plan, PlanStep } from '@/distage/core/Plan';
+
+/**
+ * Why a step differs between two plans:
+ * - 'binding': a different implementation, instance, alias target or set of elements was selected
+ * - 'dependencies': the step depends on different keys
+ * - 'tags': the selected binding has different axis tags
+ * - 'scope': the step changed between singleton and transient
+ */
+export type PlanChangeReason = 'binding' | 'dependencies' | 'tags' | 'scope';
+
+/**
+ * A key planned in both plans, with different steps
+ */
+export interface PlanStepChange {
+  key: DIKey;
+  before: PlanStep;
+  after: PlanStep;
+  reasons: PlanChangeReason[];
+  /**
+   * Remarks that do not make the steps equal, e.g. 'source identical' when the bindings use
+   * different functions with the same source (such as the same arrow function in two module
+   * instances, which may capture different values)
+   */
+  notes: string[];
+}
+
+/**
+ * Difference between two plans, e.g. for two activations or two versions of a module.
+ *
+ * Bindings are compared by what they construct rather than by object identity, so plans
+ * of separately built modules can be compared: classes, instances, alias targets, set
+ * elements and factory functions must be the same.
+ *
+ * Example:
+ *   const diff = devPlan.diff(prodPlan);
+ *   console.log(diff.toString());
+ *   // ~ f:Database: Class InMemoryDatabase -> Class PostgresDatabase (binding, tags)
+ */
+export class PlanDiff {
+  constructor(
+    /** Steps only in the other plan */
+    public readonly added: PlanStep[],
+    /** Steps only in this plan */
+    public readonly removed: PlanStep[],
+    /** Steps in both plans that differ */
+    public readonly changed: PlanStepChange[],
+  ) {}
+
+  /**
+   * Compare two plans, from `before` to `after`
+   */
+  static between(before: Plan, after: Plan): PlanDiff {
+    const beforeSteps = new Map(before.getSteps().map(step => [step.key.toMapKey(), step]));
+    const afterSteps = new Map(after.getSteps().map(step => [step.key.toMapKey(), step]));
+
+    const added = after.getSteps().filter(step => !beforeSteps.has(step.key.toMapKey()));
+    const removed = before.getSteps().filter(step => !afterSteps.has(step.key.toMapKey()));
+    const changed: PlanStepChange[] = [];
+
+    for (const step of before.getSteps()) {
+      const other = afterSteps.get(step.key.toMapKey());
+      if (!other) {
+        continue;
+      }
+
+      const reasons: PlanChangeReason[] = [];
+      const notes: string[] = [];
+      if (!sameBindings(stepBindings(step), stepBindings(other), sameImplementation)) {
+        reasons.push('binding');
+        if (sameBindings(stepBindings(step), stepBindings(other), sameSource)) {
+          notes.push('source identical');
+        }
+      }
+      if (!sameKeys(step.dependencies, other.dependencies)) {
+        reasons.push('dependencies');
+      }
+      if (describeTags(stepBindings(step)) !== describeTags(stepBindings(other))) {
+        reasons.push('tags');
+      }
+      if (step.scope !== other.scope) {
+        reasons.push('scope');
+      }
+      if (reasons.length > 0) {
+        changed.push({ key: step.key, before: step, after: other, reasons, notes });
+      }
+    }
+
+    return new PlanDiff(added, removed, changed);
+  }
+
+  /**
+   * Check if the plans are equivalent
+   */
+  isEmpty(): boolean {
+    return this.added.length === 0 && this.removed.length === 0 && this.changed.length === 0;
+  }
+
+  /**
+   * Describe the difference, one line per step:
+   * "+" for added, "-" for removed and "~" for changed steps
+   */
+  toString(): string {
+    if (this.isEmpty()) {
+      return 'Plans are identical';
+    }
+    return [
+      ...this.added.map(step => `+ ${step.key.toString()}: ${describeStep(step)}`),
+      ...this.removed.map(step => `- ${step.key.toString()}: ${describeStep(step)}`),
+      ...this.changed.map(change =>
+        `~ ${change.key.toString()}: ${describeStep(change.before)} -> ${describeStep(change.after)} ` +
+        `(${[change.reasons.join(', '), ...change.notes].join('; ')})`
+      ),
+    ].join('\n');
+  }
+}
+
+/**
+ * Set steps hold an array of element bindings, other steps a single binding
+ */
+function stepBindings(step: PlanStep): AnyBinding[] {
+  return Array.isArray(step.binding) ? step.binding : [step.binding];
+}
+
+/**
+ * Check if two steps have the same dependencies, with the same optional or lazy modifiers
+ */
+function sameKeys(a: readonly DIKey[], b: readonly DIKey[]): boolean {
+  return a.length === b.length && a.every((key, i) => key.equals(b[i]) && key.modifier === b[i].modifier);
+}
+
+/**
+ * Compares the implementations (classes or functions) of two bindings
+ */
+type ImplementationComparison = (a: unknown, b: unknown) => boolean;
+
+function sameBindings(a: AnyBinding[], b: AnyBinding[], compare: ImplementationComparison): boolean {
+  return a.length === b.length && a.every((binding, i) => sameBinding(binding, b[i], compare));
+}
+
+/**
+ * Check if two bindings construct the same thing
+ */
+function sameBinding(a: AnyBinding, b: AnyBinding, compare: ImplementationComparison): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (a.kind !== b.kind) {
+    return false;
+  }
+
+  switch (a.kind) {
+    case BindingKind.Instance:
+      return a.instance === (b as typeof a).instance;
+    case BindingKind.Alias:
+      return a.target.equals((b as typeof a).target);
+    case BindingKind.Set:
+    case BindingKind.WeakSet: {
+      const other = b as typeof a;
+      const weak = (binding: typeof a) => binding.kind === BindingKind.WeakSet || binding.weak;
+      return a.elementKey.equals(other.elementKey) &&
+        weak(a) === weak(other) &&
+        sameBinding(a.element, other.element, compare);
+    }
+    case BindingKind.AssistedFactory: {
+      const other = b as typeof a;
+      return compare(a.factory.getImplementation(), other.factory.getImplementation()) &&
+        a.assistedParams.join(',') === other.assistedParams.join(',');
+    }
+    case BindingKind.Class:
+    case BindingKind.Factory:
+    case BindingKind.Resource:
+    case BindingKind.Modifier:
+      return compare(
+        a.factory.getImplementation(),
+        (b as typeof a).factory.getImplementation(),
+      );
+  }
+}
+
+/**
+ * Implementations are the same only if they are identical: functions with the same
+ * source may still capture different values
+ */
+function sameImplementation(a: unknown, b: unknown): boolean {
+  return a === b;
+}
+
+/**
+ * Implementations have the same source if they are identical, or if both are plain
+ * functions (not classes) with the same source, e.g. the same arrow function
+ * in two instances of a module
+ */
+function sameSource(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  return typeof a === 'function' && typeof b === 'function' &&
+    !isClass(a) && !isClass(b) &&
+    a.toString() === b.toString();
+}
+
+function isClass(fn: Function): boolean {
+  return /^class\b/.test(Function.prototype.toString.call(fn));
+}
+
+function describeTags(bindings: AnyBinding[]): string {
+  return bindings
+    .map(binding => binding.tags.describe().sort().join(','))
+    .join(';');
+}
+
+function describeStep(step: PlanStep): string {
+  const bindings = stepBindings(step);
+  if (bindings.every(b => b.kind === BindingKind.Set || b.kind === BindingKind.WeakSet)) {
+    return `Set (${bindings.length} element(s))`;
+  }
+  return describeBinding(bindings[0]);
+}
+
+function describeBinding(binding: AnyBinding): string {
+  switch (binding.kind) {
+    case BindingKind.Alias:
+      return `Alias -> ${binding.target.toString()}`;
+    case BindingKind.Class:
+    case BindingKind.Factory:
+    case BindingKind.Resource:
+    case BindingKind.AssistedFactory:
+    case BindingKind.Modifier: {
+      const implementation = binding.factory.getImplementation();
+      const name = typeof implementation === 'function' ? implementation.name : '';
+      return name ? `${binding.kind} ${name}` : binding.kind;
+    }
+    default:
+      return binding.kind;
+  }
+}
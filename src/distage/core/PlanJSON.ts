@@ -0,0 +1,334 @@
+import { DIKey, TypeTag, DependencyModifier } from '@/distage/model/DIKey';
+import { AnyBinding, BindingKind, BindingScope } from '@/distage/model/Binding';
+import { BindingOrigin } from '@/distage/model/BindingOrigin';
+import type { Plan } from '@/distage/core/Plan';
+
+/**
+ * Version of the plan JSON schema produced by Plan.toJSON().
+ * Bumped on any incompatible change to the types below.
+ */
+export const PLAN_JSON_VERSION = 3;
+
+/**
+ * JSON form of a TypeTag
+ */
+export type TypeTagJSON =
+  | { kind: 'callable'; name: string }
+  | { kind: 'primitive'; name: string }
+  | { kind: 'token'; description: string }
+  | { kind: 'tagged'; tag: string }
+  | { kind: 'set'; element: TypeTagJSON }
+  | { kind: 'modified'; target: TypeTagJSON; applied: number };
+
+/**
+ * JSON form of a DIKey
+ */
+export interface DIKeyJSON {
+  /** Same as DIKey.toString() */
+  repr: string;
+  /**
+   * Unique reference to the key within a plan, used to look keys up: the repr, followed by
+   * #2, #3... for distinct keys that share the repr of another (e.g. two classes named alike)
+   */
+  ref: string;
+  type: TypeTagJSON;
+  id?: string;
+  /** Dependencies only: whether the dependency is optional or lazy */
+  modifier?: DependencyModifier;
+}
+
+/**
+ * JSON form of a BindingOrigin
+ */
+export interface BindingOriginJSON {
+  file?: string;
+  line?: number;
+  column?: number;
+  module?: string;
+}
+
+/**
+ * JSON form of a binding selected by the planner
+ */
+export interface BindingJSON {
+  kind: BindingKind;
+  key: DIKeyJSON;
+  /** Axis tags of the binding, axis name -> choice */
+  tags: Record<string, string>;
+  /** Alias bindings: the aliased key */
+  target?: DIKeyJSON;
+  /** Set and weak set bindings: the contributed element */
+  element?: { kind: BindingKind; key: DIKeyJSON; weak: boolean };
+  /** Assisted factory bindings: parameters provided at runtime */
+  assistedParams?: string[];
+  /** Where the binding was defined */
+  origin?: BindingOriginJSON;
+}
+
+/**
+ * JSON form of a plan step.
+ * Set steps list every contributing element binding, other steps have exactly one binding.
+ */
+export interface PlanStepJSON {
+  key: DIKeyJSON;
+  bindings: BindingJSON[];
+  dependencies: DIKeyJSON[];
+  scope: BindingScope;
+}
+
+/**
+ * JSON form of a Plan, as produced by Plan.toJSON().
+ * Steps are in execution order: dependencies come before their dependents.
+ */
+export interface PlanJSON {
+  version: typeof PLAN_JSON_VERSION;
+  roots: DIKeyJSON[];
+  steps: PlanStepJSON[];
+  /** Optional dependencies without a binding, resolved to undefined */
+  absent: DIKeyJSON[];
+}
+
+/**
+ * Converts plans and their parts to the JSON schema above
+ */
+export const PlanSerializer = {
+  plan(plan: Plan): PlanJSON {
+    // Step keys get their references first, so that they are numbered in execution order
+    const refs = new KeyRefs();
+    plan.getSteps().forEach(step => refs.ref(step.key));
+
+    return {
+      version: PLAN_JSON_VERSION,
+      roots: Array.from(plan.getRoots()).map(key => PlanSerializer.key(key, refs)),
+      steps: plan.getSteps().map(step => ({
+        key: PlanSerializer.key(step.key, refs),
+        bindings: (Array.isArray(step.binding) ? step.binding : [step.binding])
+          .map(binding => PlanSerializer.binding(binding, refs)),
+        dependencies: step.dependencies.map(dep => PlanSerializer.key(dep, refs)),
+        scope: step.scope,
+      })),
+      absent: plan.getAbsentKeys().map(key => PlanSerializer.key(key, refs)),
+    };
+  },
+
+  binding(binding: AnyBinding, refs: KeyRefs = new KeyRefs()): BindingJSON {
+    const json: BindingJSON = {
+      kind: binding.kind,
+      key: PlanSerializer.key(binding.key, refs),
+      tags: Object.fromEntries(
+        Array.from(binding.tags.getTags()).map(([axis, choice]) => [axis.name, choice]),
+      ),
+    };
+
+    switch (binding.kind) {
+      case BindingKind.Alias:
+        json.target = PlanSerializer.key(binding.target, refs);
+        break;
+      case BindingKind.Set:
+      case BindingKind.WeakSet:
+        json.element = {
+          kind: binding.element.kind,
+          key: PlanSerializer.key(binding.elementKey, refs),
+          weak: binding.kind === BindingKind.WeakSet || binding.weak,
+        };
+        break;
+      case BindingKind.AssistedFactory:
+        json.assistedParams = [...binding.assistedParams];
+        break;
+    }
+
+    if (binding.origin) {
+      json.origin = PlanSerializer.origin(binding.origin);
+    }
+
+    return json;
+  },
+
+  origin(origin: BindingOrigin): BindingOriginJSON {
+    const json: BindingOriginJSON = {};
+    if (origin.file !== undefined) json.file = origin.file;
+    if (origin.line !== undefined) json.line = origin.line;
+    if (origin.column !== undefined) json.column = origin.column;
+    if (origin.module !== undefined) json.module = origin.module;
+    return json;
+  },
+
+  key(key: DIKey, refs: KeyRefs = new KeyRefs()): DIKeyJSON {
+    const json: DIKeyJSON = { repr: key.toString(), ref: refs.ref(key), type: PlanSerializer.typeTag(key.type) };
+    if (key.id !== undefined) {
+      json.id = key.id;
+    }
+    if (key.modifier !== undefined) {
+      json.modifier = key.modifier;
+    }
+    return json;
+  },
+
+  typeTag(tag: TypeTag): TypeTagJSON {
+    switch (tag.kind) {
+      case 'callable':
+        return { kind: 'callable', name: tag.value.name || '<anonymous>' };
+      case 'primitive':
+        return { kind: 'primitive', name: tag.name };
+      case 'token':
+        return { kind: 'token', description: tag.description };
+      case 'tagged':
+        return { kind: 'tagged', tag: String(tag.value._type) };
+      case 'set':
+        return { kind: 'set', element: PlanSerializer.typeTag(tag.elementTag) };
+      case 'modified':
+        return { kind: 'modified', target: PlanSerializer.typeTag(tag.targetTag), applied: tag.applied };
+    }
+  },
+};
+
+/**
+ * Assigns the keys of a plan their unique references (see DIKeyJSON.ref)
+ */
+export class KeyRefs {
+  private readonly refsByKey = new Map<string, string>();
+  private readonly countsByRepr = new Map<string, number>();
+
+  ref(key: DIKey): string {
+    const existing = this.refsByKey.get(key.toMapKey());
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    const repr = key.toString();
+    const count = (this.countsByRepr.get(repr) ?? 0) + 1;
+    this.countsByRepr.set(repr, count);
+    const ref = count === 1 ? repr : `${repr}#${count}`;
+    this.refsByKey.set(key.toMapKey(), ref);
+    return ref;
+  }
+}
+
+/**
+ * Read-only view of a serialized plan for offline analysis.
+ * Works on the JSON alone, without access to the classes the plan was built from.
+ * Keys are referred to by their `ref`: their repr (DIKey.toString()), unless several keys share it.
+ *
+ * Example:
+ *   const description = PlanDescription.fromJSON(fs.readFileSync('plan.json', 'utf8'));
+ *   for (const dependent of description.getDependents('f:Database')) { ... }
+ */
+export class PlanDescription {
+  private readonly stepsByRef: Map<string, PlanStepJSON>;
+
+  private constructor(private readonly json: PlanJSON) {
+    this.stepsByRef = new Map(json.steps.map(step => [step.key.ref, step]));
+  }
+
+  /**
+   * Parse and validate a serialized plan (a JSON string or an already parsed value)
+   * @throws Error if the value does not follow the plan JSON schema
+   */
+  static fromJSON(value: string | unknown): PlanDescription {
+    const json = typeof value === 'string' ? JSON.parse(value) : value;
+    validatePlanJSON(json);
+    return new PlanDescription(json);
+  }
+
+  /**
+   * Get the root keys of the plan
+   */
+  getRoots(): readonly DIKeyJSON[] {
+    return this.json.roots;
+  }
+
+  /**
+   * Get the optional dependencies that have no binding
+   */
+  getAbsentKeys(): readonly DIKeyJSON[] {
+    return this.json.absent;
+  }
+
+  /**
+   * Get all steps in execution order
+   */
+  getSteps(): readonly PlanStepJSON[] {
+    return this.json.steps;
+  }
+
+  /**
+   * Get the step for a key
+   */
+  getStep(ref: string): PlanStepJSON | undefined {
+    return this.stepsByRef.get(ref);
+  }
+
+  /**
+   * Check if the plan contains a step for a key
+   */
+  has(ref: string): boolean {
+    return this.stepsByRef.has(ref);
+  }
+
+  /**
+   * Get the direct dependencies of a key
+   */
+  getDependencies(ref: string): readonly DIKeyJSON[] {
+    return this.stepsByRef.get(ref)?.dependencies ?? [];
+  }
+
+  /**
+   * Get the keys of all steps that directly depend on a key
+   */
+  getDependents(ref: string): DIKeyJSON[] {
+    return this.json.steps
+      .filter(step => step.dependencies.some(dep => dep.ref === ref))
+      .map(step => step.key);
+  }
+
+  /**
+   * Get the underlying JSON
+   */
+  toJSON(): PlanJSON {
+    return this.json;
+  }
+}
+
+function validatePlanJSON(value: unknown): asserts value is PlanJSON {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid plan JSON: ${reason}`);
+  };
+  const isObject = (item: unknown): item is Record<string, unknown> =>
+    typeof item === 'object' && item !== null;
+  const isKey = (key: unknown) => isObject(key) &&
+    typeof key.repr === 'string' && typeof key.ref === 'string' && isObject(key.type) &&
+    (key.modifier === undefined || key.modifier === 'optional' || key.modifier === 'lazy');
+
+  if (!isObject(value)) {
+    return fail('expected an object');
+  }
+  if (value.version !== PLAN_JSON_VERSION) {
+    fail(`unsupported version ${String(value.version)}, expected ${PLAN_JSON_VERSION}`);
+  }
+  const { roots, steps, absent } = value;
+  if (!Array.isArray(roots) || !Array.isArray(steps) || !Array.isArray(absent)) {
+    return fail('expected "roots", "steps" and "absent" arrays');
+  }
+
+  roots.forEach((root: unknown, index: number) => {
+    if (!isKey(root)) fail(`roots[${index}] is not a key`);
+  });
+  absent.forEach((key: unknown, index: number) => {
+    if (!isKey(key)) fail(`absent[${index}] is not a key`);
+  });
+  steps.forEach((step: unknown, index: number) => {
+    if (!isObject(step) || !isKey(step.key)) {
+      return fail(`steps[${index}] has no valid key`);
+    }
+    const { bindings, dependencies } = step;
+    if (!Array.isArray(bindings) || !Array.isArray(dependencies)) {
+      return fail(`steps[${index}] must have "bindings" and "dependencies" arrays`);
+    }
+    if (step.scope !== 'singleton' && step.scope !== 'transient') {
+      fail(`steps[${index}] has an unknown scope ${String(step.scope)}`);
+    }
+    dependencies.forEach((dep: unknown, depIndex: number) => {
+      if (!isKey(dep)) fail(`steps[${index}].dependencies[${depIndex}] is not a key`);
+    });
+  });
+}
@@ -0,0 +1,219 @@
+import { DIKey } from '@/distage/model/DIKey';
+import { AnyBinding, BindingKind, SetBinding, WeakSetBinding } from '@/distage/model/Binding';
+import type { Plan, PlanStep } from '@/distage/core/Plan';
+
+/**
+ * A node of the rendered dependency graph
+ */
+interface GraphNode {
+  id: string;
+  lines: string[];
+  root: boolean;
+  external: boolean;
+}
+
+/**
+ * An edge from a dependent to its dependency.
+ * Set edges connect a set to one of its elements.
+ */
+interface GraphEdge {
+  from: string;
+  to: string;
+  setElement: boolean;
+}
+
+interface Graph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+/**
+ * Renders a Plan's dependency graph as Graphviz DOT or Mermaid.
+ *
+ * Nodes are labelled with the DIKey, the binding kind and the axis tags of the
+ * selected binding. Roots are highlighted, set elements get their own nodes connected
+ * by dashed edges, and dependencies provided by a parent locator or absent optional
+ * dependencies are drawn as dashed nodes.
+ *
+ * Example:
+ *   const plan = injector.plan(module, [DIKey.of(App)]);
+ *   fs.writeFileSync('plan.dot', PlanRenderer.toDot(plan));
+ */
+export const PlanRenderer = {
+  /**
+   * Render the plan as a Graphviz DOT digraph
+   */
+  toDot(plan: Plan): string {
+    const graph = buildGraph(plan);
+    const lines = [
+      'digraph Plan {',
+      '  rankdir=LR;',
+      '  node [shape=box, fontname="Helvetica"];',
+    ];
+
+    for (const node of graph.nodes) {
+      const attrs = [`label="${node.lines.map(escapeDot).join('\\n')}"`];
+      if (node.root) {
+        attrs.push('style="filled,bold"', 'fillcolor="lightyellow"', 'penwidth=2');
+      } else if (node.external) {
+        attrs.push('style="dashed"');
+      }
+      lines.push(`  ${node.id} [${attrs.join(', ')}];`);
+    }
+
+    for (const edge of graph.edges) {
+      const attrs = edge.setElement ? ' [style=dashed, arrowhead=odiamond]' : '';
+      lines.push(`  ${edge.from} -> ${edge.to}${attrs};`);
+    }
+
+    lines.push('}');
+    return lines.join('\n');
+  },
+
+  /**
+   * Render the plan as a Mermaid flowchart
+   */
+  toMermaid(plan: Plan): string {
+    const graph = buildGraph(plan);
+    const lines = ['graph LR'];
+
+    for (const node of graph.nodes) {
+      lines.push(`  ${node.id}["${node.lines.map(escapeMermaid).join('<br/>')}"]`);
+    }
+
+    for (const edge of graph.edges) {
+      const arrow = edge.setElement ? '-.->' : '-->';
+      lines.push(`  ${edge.from} ${arrow} ${edge.to}`);
+    }
+
+    const roots = graph.nodes.filter(n => n.root).map(n => n.id);
+    const externals = graph.nodes.filter(n => n.external).map(n => n.id);
+
+    lines.push('  classDef root fill:#fff5cc,stroke-width:3px');
+    lines.push('  classDef external stroke-dasharray:5 5');
+    if (roots.length > 0) {
+      lines.push(`  class ${roots.join(',')} root`);
+    }
+    if (externals.length > 0) {
+      lines.push(`  class ${externals.join(',')} external`);
+    }
+
+    return lines.join('\n');
+  },
+};
+
+/**
+ * Build the renderer-independent graph model of a plan
+ */
+function buildGraph(plan: Plan): Graph {
+  const steps = plan.getSteps();
+  const roots = Array.from(plan.getRoots());
+  const nodes: GraphNode[] = [];
+  const edges: GraphEdge[] = [];
+  const nodeIds = new Map<string, string>();
+
+  steps.forEach((step, index) => {
+    const id = `n${index}`;
+    nodeIds.set(step.key.toMapKey(), id);
+    nodes.push({
+      id,
+      lines: [step.key.toString(), ...describeStep(step)],
+      root: roots.some(root => root.equals(step.key)),
+      external: false,
+    });
+  });
+
+  // Dependencies without a step are absent optional dependencies or provided by a parent locator
+  const nodeFor = (key: DIKey): string => {
+    const keyStr = key.toMapKey();
+    let id = nodeIds.get(keyStr);
+    if (!id) {
+      id = `x${nodeIds.size - steps.length}`;
+      nodeIds.set(keyStr, id);
+      const label = plan.isAbsent(key) ? '(absent)' : '(external)';
+      nodes.push({ id, lines: [key.toString(), label], root: false, external: true });
+    }
+    return id;
+  };
+
+  for (const step of steps) {
+    const from = nodeIds.get(step.key.toMapKey())!;
+    const setBindings = getSetBindings(step.binding);
+
+    if (setBindings) {
+      setBindings.forEach((binding, index) => {
+        const elementId = `${from}_${index}`;
+        nodes.push({
+          id: elementId,
+          lines: [
+            `element of ${step.key.toString()}`,
+            isWeak(binding) ? `${binding.element.kind} (weak)` : binding.element.kind,
+            ...describeTags(binding),
+          ],
+          root: false,
+          external: false,
+        });
+        edges.push({ from, to: elementId, setElement: true });
+        for (const dep of getElementDependencies(binding)) {
+          edges.push({ from: elementId, to: nodeFor(dep), setElement: false });
+        }
+      });
+    } else {
+      for (const dep of step.dependencies) {
+        edges.push({ from, to: nodeFor(dep), setElement: false });
+      }
+    }
+  }
+
+  return { nodes, edges };
+}
+
+/**
+ * Set steps hold either a single set binding or an array of them
+ */
+function getSetBindings(binding: AnyBinding | AnyBinding[]): (SetBinding | WeakSetBinding)[] | undefined {
+  const bindings = Array.isArray(binding) ? binding : [binding];
+  const allSets = bindings.every(b => b.kind === BindingKind.Set || b.kind === BindingKind.WeakSet);
+  return allSets ? bindings as (SetBinding | WeakSetBinding)[] : undefined;
+}
+
+function getElementDependencies(binding: SetBinding | WeakSetBinding): DIKey[] {
+  const element = binding.element;
+  return element.kind === BindingKind.Instance ? [] : element.factory.getDependencies();
+}
+
+function describeStep(step: PlanStep): string[] {
+  const setBindings = getSetBindings(step.binding);
+  if (setBindings) {
+    return [`Set (${setBindings.length} element(s))`];
+  }
+  const binding = step.binding as AnyBinding;
+  return [...describeBinding(binding), ...describeTags(binding)];
+}
+
+function describeBinding(binding: AnyBinding): string[] {
+  if (binding.kind === BindingKind.Alias) {
+    return [`Alias -> ${binding.target.toString()}`];
+  }
+  return [binding.kind];
+}
+
+function describeTags(binding: AnyBinding): string[] {
+  const tags = binding.tags.describe();
+  return tags.length > 0 ? [`[${tags.join(', ')}]`] : [];
+}
+
+function isWeak(binding: SetBinding | WeakSetBinding): boolean {
+  return binding.kind === BindingKind.WeakSet || binding.weak;
+}
+
+function escapeDot(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+function escapeMermaid(text: string): string {
+  return text
+    .replace(/"/g, '#quot;')
+    .replace(/</g, '#lt;')
+    .replace(/>/g, '#gt;');
+}
@@ -0,0 +1,103 @@
+import { DIKey } from '@/distage/model/DIKey';
+import { Activation, Axis, AxisPoint } from '@/distage/model/Activation';
+import { ModuleDef } from '@/distage/dsl/ModuleDef';
+import { Planner } from '@/distage/core/Planner';
+import { PlanningError, PlanningFailure } from '@/distage/core/Plan';
+
+/**
+ * An activation under which the module cannot be planned.
+ * Axes without a choice in the activation don't matter: the failure happens for every choice of them.
+ */
+export interface ActivationFailure {
+  activation: Activation;
+  failure: PlanningFailure;
+}
+
+/**
+ * Result of verifying a module across the choice space of a set of axes
+ */
+export interface PlanVerificationReport {
+  /** Whether the module can be planned under every activation */
+  success: boolean;
+  /** Activations under which planning fails, with every error found */
+  failures: ActivationFailure[];
+  /**
+   * The (possibly partial) activations that were planned.
+   * Together they cover the whole choice space; axes without a choice did not affect the outcome.
+   */
+  checked: Activation[];
+}
+
+/**
+ * Thrown by PlanVerifier.assertValid() when some activation cannot be planned
+ */
+export class PlanVerificationError extends PlanningError {
+  constructor(public readonly failures: ActivationFailure[]) {
+    const details = failures.map(({ activation, failure }) =>
+      `${activation.toString()}:\n  ${failure.message.split('\n').join('\n  ')}`
+    );
+    super(
+      `Plan verification failed for ${failures.length} activation(s):\n${details.join('\n')}`,
+    );
+    this.name = 'PlanVerificationError';
+  }
+}
+
+/**
+ * Statically checks that a module can be planned under every combination of axis choices.
+ *
+ * Instead of planning every combination, the verifier starts from an empty activation and only
+ * branches on an axis when a binding reached by the planner is tagged with it. If no reached
+ * binding depends on the remaining axes, one planning run covers all their combinations.
+ *
+ * Example:
+ *   const report = new PlanVerifier().verify(module, [DIKey.of(App)], [Env, Region]);
+ *   for (const { activation, failure } of report.failures) { ... }
+ *
+ *   // In a unit test
+ *   new PlanVerifier().assertValid(module, [DIKey.of(App)], [Env, Region]);
+ */
+export class PlanVerifier {
+  private readonly planner = new Planner();
+
+  /**
+   * Verify the module across all choices of the given axes
+   */
+  verify(module: ModuleDef, roots: DIKey[], axes: Axis[]): PlanVerificationReport {
+    const failures: ActivationFailure[] = [];
+    const checked: Activation[] = [];
+
+    const explore = (activation: Activation) => {
+      const { result, inspectedAxes } = this.planner.planInspectingAxes(module, roots, activation);
+
+      // Branch on the first axis the outcome depends on that has no choice yet
+      const axis = axes.find(a => inspectedAxes.has(a) && !activation.hasAxis(a));
+      if (axis) {
+        for (const choice of axis.choices) {
+          explore(activation.withPoint(AxisPoint.of(axis, choice)));
+        }
+        return;
+      }
+
+      checked.push(activation);
+      if (!result.success) {
+        failures.push({ activation, failure: result.failure });
+      }
+    };
+
+    explore(Activation.empty());
+
+    return { success: failures.length === 0, failures, checked };
+  }
+
+  /**
+   * Verify the module across all choices of the given axes
+   * @throws PlanVerificationError listing every failing activation
+   */
+  assertValid(module: ModuleDef, roots: DIKey[], axes: Axis[]): void {
+    const report = this.verify(module, roots, axes);
+    if (!report.success) {
+      throw new PlanVerificationError(report.failures);
+    }
+  }
+}
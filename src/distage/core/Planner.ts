@@ -1,4 +1,4 @@
-import { DIKey } from '@/distage/model/DIKey';
+import { DIKey, TypeTag } from '@/distage/model/DIKey';
 import {
   AnyBinding,
   BindingKind,
@@ -8,18 +8,90 @@ import {
   SetBinding,
   WeakSetBinding,
   InstanceBinding,
+  ResourceBinding,
+  AssistedFactoryBinding,
+  ModifierBinding,
+  Bindings,
+  assistedDependencies,
 } from '@/distage/model/Binding';
+import { Functoid } from '@/distage/core/Functoid';
 import { Activation, Axis, AxisPoint } from '@/distage/model/Activation';
 import { ModuleDef } from '@/distage/dsl/ModuleDef';
 import {
   Plan,
   PlanStep,
+  PathConstraint,
+  PlanningError,
+  PlanningFailure,
+  PlanningResult,
   MissingDependencyError,
   CircularDependencyError,
   ConflictingBindingsError,
   AxisConflictError,
 } from '@/distage/core/Plan';
 
+/**
+ * How the planner handles dependency cycles:
+ * - 'fail': every cycle is a CircularDependencyError
+ * - 'proxy': a cycle through a class binding is resolved by handing its dependents a proxy
+ *   that forwards to the instance once it is produced
+ */
+export type CycleMode = 'fail' | 'proxy';
+
+/**
+ * A key on the current traversal path together with the binding selected for it.
+ * For set keys, the binding is the set element currently being traced.
+ */
+interface PathEntry {
+  key: DIKey;
+  binding: AnyBinding;
+}
+
+/**
+ * A weak set element being traced: the key of its set and its binding
+ */
+interface WeakElement {
+  setKey: DIKey;
+  binding: AnyBinding;
+}
+
+/**
+ * A lazy dependency together with where it was requested
+ */
+interface DeferredDependency {
+  key: DIKey;
+  pathActivation: PathActivation;
+  path: PathEntry[];
+  /** The weak set element that requested it, dropped from its set if the dependency can't be planned */
+  weakElement?: WeakElement;
+}
+
+/**
+ * State shared by all recursive tracing calls of one planning run
+ */
+interface TraceState {
+  bindingIndex: Map<string, AnyBinding[]>;
+  /** Modifiers by the key they modify, in definition order */
+  modifierIndex: Map<string, ModifierBinding[]>;
+  steps: Map<string, PlanStep>;
+  /** Optional dependencies without a usable binding, resolved to undefined */
+  absent: Map<string, DIKey>;
+  /** Lazy dependencies, traced after the dependents that requested them */
+  deferred: DeferredDependency[];
+  visiting: Set<string>;
+  visited: Set<string>;
+  cycles: CycleMode;
+  /** Dependencies resolved to a cycle proxy, by the key of their dependent */
+  proxied: Map<string, DIKey[]>;
+  parentLocator?: import('@/distage/core/Locator').Locator;
+  /** When set, planning errors are collected here instead of thrown */
+  errors?: PlanningError[];
+  /** When set, receives every axis that the candidate bindings of traced keys are tagged with */
+  inspectedAxes?: Set<Axis>;
+  /** The weak set element whose dependencies are being traced */
+  weakElement?: WeakElement;
+}
+
 /**
  * Tracks valid and invalid axis choices along the current traversal path.
  * This is used to detect conflicts where a selected binding's tags
@@ -30,6 +102,7 @@ class PathActivation {
     private readonly baseActivation: Activation,
     private readonly requiredChoices: Map<Axis, Set<string>> = new Map(),
     private readonly forbiddenChoices: Map<Axis, Set<string>> = new Map(),
+    private readonly constraintSources: Map<Axis, PathEntry> = new Map(),
   ) {}
 
   /**
@@ -42,14 +115,20 @@ class PathActivation {
   /**
    * Create a new PathActivation with additional constraints from a selected binding.
    * When we select a binding with tags, those tags become required constraints
-   * for the rest of the traversal path.
+   * for the rest of the traversal path. The path entry is remembered as the source
+   * of the constraints it introduces.
    */
-  withBindingConstraints(binding: AnyBinding): PathActivation {
+  withBindingConstraints(entry: PathEntry): PathActivation {
     const newRequired = new Map(this.requiredChoices);
     const newForbidden = new Map(this.forbiddenChoices);
+    const newSources = new Map(this.constraintSources);
 
     // For each tag on the binding, mark it as required and forbid other choices
-    for (const [axis, choice] of binding.tags.getTags()) {
+    for (const [axis, choice] of entry.binding.tags.getTags()) {
+      if (!newSources.has(axis)) {
+        newSources.set(axis, entry);
+      }
+
       // Add this choice as required
       if (!newRequired.has(axis)) {
         newRequired.set(axis, new Set());
@@ -67,7 +146,14 @@ class PathActivation {
       }
     }
 
-    return new PathActivation(this.baseActivation, newRequired, newForbidden);
+    return new PathActivation(this.baseActivation, newRequired, newForbidden, newSources);
+  }
+
+  /**
+   * Get the user's activation, without the constraints of the path
+   */
+  getBaseActivation(): Activation {
+    return this.baseActivation;
   }
 
   /**
@@ -113,24 +199,25 @@ class PathActivation {
   }
 
   /**
-   * Get a description of the current path constraints for error messages
+   * Get the current path constraints with the bindings that introduced them, for error messages.
+   * Forbidden choices are implied: every other choice of a constrained axis is forbidden.
    */
-  getConstraintsDescription(): string {
-    const parts: string[] = [];
+  getConstraints(): PathConstraint[] {
+    const constraints: PathConstraint[] = [];
 
     for (const [axis, choices] of this.requiredChoices) {
       if (choices.size > 0) {
-        parts.push(`${axis.name} must be ${Array.from(choices).join(' or ')}`);
-      }
-    }
-
-    for (const [axis, choices] of this.forbiddenChoices) {
-      if (choices.size > 0) {
-        parts.push(`${axis.name} cannot be ${Array.from(choices).join(' or ')}`);
+        const source = this.constraintSources.get(axis)!;
+        constraints.push({
+          axis,
+          choices: Array.from(choices),
+          introducedBy: source.key,
+          origin: source.binding.origin,
+        });
       }
     }
 
-    return parts.join(', ');
+    return constraints;
   }
 }
 
@@ -144,45 +231,137 @@ class PathActivation {
  * 3. Detects circular dependencies
  * 4. Detects missing dependencies
  * 5. Produces a topologically sorted execution plan
+ *
+ * plan() fails on the first error. planOrErrors() keeps tracing the remaining
+ * roots and branches and reports every error it finds.
+ *
+ * With the 'proxy' cycle mode, a cycle is broken at one of its class bindings: the dependent
+ * closing the cycle is planned first and receives a proxy (see PlanStep.proxiedDependencies).
  */
 export class Planner {
   /**
    * Create a plan for the given module, roots, and activation
+   * @throws PlanningError on the first missing, conflicting or circular dependency
    */
   plan(
     module: ModuleDef,
     roots: DIKey[],
     activation: Activation = Activation.empty(),
-    parentLocator?: import('@/distage/core/Locator').Locator
+    parentLocator?: import('@/distage/core/Locator').Locator,
+    cycles: CycleMode = 'fail',
   ): Plan {
-    // Group bindings by key (no filtering yet - we'll filter during traversal)
-    const bindingIndex = this.groupBindings(module.getBindings());
+    return this.buildPlan(module, roots, activation, parentLocator, cycles);
+  }
+
+  /**
+   * Create a plan, collecting all planning errors instead of failing on the first one.
+   * Each error is reported once per failing key, with the dependency path that led to it.
+   *
+   * Example:
+   *   const result = planner.planOrErrors(module, roots, activation);
+   *   if (!result.success) {
+   *     for (const [kind, errors] of result.failure.byKind()) { ... }
+   *   }
+   */
+  planOrErrors(
+    module: ModuleDef,
+    roots: DIKey[],
+    activation: Activation = Activation.empty(),
+    parentLocator?: import('@/distage/core/Locator').Locator,
+    cycles: CycleMode = 'fail',
+  ): PlanningResult {
+    const errors: PlanningError[] = [];
+    const plan = this.buildPlan(module, roots, activation, parentLocator, cycles, errors);
+
+    return errors.length > 0
+      ? { success: false, failure: new PlanningFailure(errors) }
+      : { success: true, plan };
+  }
+
+  /**
+   * Create a plan collecting all planning errors, and report the axes that the
+   * candidate bindings of all traced keys are tagged with. The result can only change
+   * with the choices of these axes. Used by PlanVerifier to prune the choice space.
+   * @internal
+   */
+  planInspectingAxes(
+    module: ModuleDef,
+    roots: DIKey[],
+    activation: Activation,
+  ): { result: PlanningResult; inspectedAxes: Set<Axis> } {
+    const errors: PlanningError[] = [];
+    const inspectedAxes = new Set<Axis>();
+    const plan = this.buildPlan(module, roots, activation, undefined, 'fail', errors, inspectedAxes);
+
+    const result: PlanningResult = errors.length > 0
+      ? { success: false, failure: new PlanningFailure(errors) }
+      : { success: true, plan };
+    return { result, inspectedAxes };
+  }
+
+  /**
+   * Trace all roots and build the plan.
+   * When an errors array is given, planning errors are collected into it instead of thrown.
+   */
+  private buildPlan(
+    module: ModuleDef,
+    roots: DIKey[],
+    activation: Activation,
+    parentLocator: import('@/distage/core/Locator').Locator | undefined,
+    cycles: CycleMode,
+    errors?: PlanningError[],
+    inspectedAxes?: Set<Axis>,
+  ): Plan {
+    const state: TraceState = {
+      // Group bindings by key (no filtering yet - we'll filter during traversal)
+      bindingIndex: this.groupBindings(module.getBindings().filter(b => b.kind !== BindingKind.Modifier)),
+      modifierIndex: this.groupBindings(module.getBindings().filter(b => b.kind === BindingKind.Modifier)) as
+        Map<string, ModifierBinding[]>,
+      steps: new Map(),
+      absent: new Map(),
+      deferred: [],
+      visiting: new Set(),
+      visited: new Set(),
+      cycles,
+      proxied: new Map(),
+      parentLocator,
+      errors,
+      inspectedAxes,
+    };
 
     // Create initial path activation from user's activation
     const pathActivation = PathActivation.fromActivation(activation);
 
     // Trace dependencies from roots
-    const steps = new Map<string, PlanStep>();
-    const visiting = new Set<string>();
-    const visited = new Set<string>();
-
     for (const root of roots) {
-      this.traceDependencies(
-        root,
-        bindingIndex,
-        pathActivation,
-        steps,
-        visiting,
-        visited,
-        [],
-        parentLocator,
-      );
+      this.traceDependency(root, pathActivation, [], state);
+    }
+
+    // Then lazy dependencies, which may in turn request more of them. Their dependents
+    // are fully traced by now, so a lazy dependency back to them is not a cycle.
+    for (let next = state.deferred.shift(); next; next = state.deferred.shift()) {
+      this.traceDeferred(next, state);
+    }
+
+    if (errors && errors.length > 0) {
+      // The plan is incomplete, the caller reports the errors instead
+      return new Plan([], new Set(roots));
     }
 
     // Topologically sort the steps
-    const sortedSteps = this.topologicalSort(Array.from(steps.values()));
+    const sortedSteps = this.topologicalSort(Array.from(state.steps.values()));
+
+    // Keys with bindings that no root reaches
+    const prunedKeys = Array.from(state.bindingIndex.entries())
+      .filter(([keyStr]) => !state.steps.has(keyStr))
+      .map(([, bindings]) => bindings[0].key);
+
+    // An optional key may be absent on one path and planned on another
+    const absentKeys = Array.from(state.absent.entries())
+      .filter(([keyStr]) => !state.steps.has(keyStr))
+      .map(([, key]) => key);
 
-    return new Plan(sortedSteps, new Set(roots));
+    return new Plan(sortedSteps, new Set(roots), prunedKeys, absentKeys);
   }
 
   /**
@@ -211,24 +390,37 @@ export class Planner {
     key: DIKey,
     candidates: AnyBinding[],
     pathActivation: PathActivation,
-    requiredBy: DIKey | undefined,
+    path: PathEntry[],
+    bindingIndex: Map<string, AnyBinding[]>,
   ): AnyBinding | AnyBinding[] {
+    const requiredBy = path.length > 0 ? path[path.length - 1] : undefined;
+    const keyPath = [...path.map(entry => entry.key), key];
+
     // Filter bindings that are valid under current path constraints
     const valid = candidates.filter(b => pathActivation.isBindingValid(b));
 
     if (valid.length === 0) {
       // Check if there were any candidates that matched base activation but failed path constraints
-      const baseMatching = candidates.filter(b => b.tags.matches(pathActivation['baseActivation']));
+      const baseMatching = candidates.filter(b => b.tags.matches(pathActivation.getBaseActivation()));
       if (baseMatching.length > 0) {
         // There were bindings that matched base activation but conflicted with path
         throw new AxisConflictError(
           key,
-          requiredBy,
-          pathActivation.getConstraintsDescription(),
+          requiredBy?.key,
+          pathActivation.getConstraints(),
+          requiredBy?.binding.origin,
+          baseMatching,
+          keyPath,
         );
       }
       // No bindings match the base activation at all
-      throw new MissingDependencyError(key, requiredBy);
+      throw new MissingDependencyError(
+        key,
+        requiredBy?.key,
+        requiredBy?.binding.origin,
+        keyPath,
+        this.suggestAlternatives(key, bindingIndex, pathActivation.getBaseActivation()),
+      );
     }
 
     // Check if all valid bindings are set bindings
@@ -236,7 +428,7 @@ export class Planner {
       b => b.kind === BindingKind.Set || b.kind === BindingKind.WeakSet
     );
 
-    if (allSets && valid.length > 1) {
+    if (allSets) {
       // Set bindings are additive - keep all of them
       return valid;
     }
@@ -247,12 +439,119 @@ export class Planner {
 
     if (mostSpecific.length > 1) {
       // Multiple bindings with same specificity - ambiguous
-      throw new ConflictingBindingsError(key, mostSpecific);
+      throw new ConflictingBindingsError(key, mostSpecific, keyPath);
     }
 
     return mostSpecific[0];
   }
 
+  /**
+   * Trace a lazy dependency after the roots. One requested by a weak set element is traced
+   * like the element's other dependencies: if it can't be planned, the element is dropped.
+   */
+  private traceDeferred(deferred: DeferredDependency, state: TraceState): void {
+    const { key, pathActivation, path, weakElement } = deferred;
+    if (!weakElement) {
+      this.traceDependency(key.withoutModifier(), pathActivation, path, state);
+      return;
+    }
+
+    try {
+      this.traceWeakElement(
+        () => this.traceDependency(key.withoutModifier(), pathActivation, path, { ...state, errors: undefined, weakElement }),
+        state,
+      );
+    } catch (error) {
+      if (!(error instanceof MissingDependencyError || error instanceof AxisConflictError)) {
+        throw error;
+      }
+      this.dropWeakElement(weakElement, state);
+    }
+  }
+
+  /**
+   * Run the trace of a weak element's dependencies. A failed trace doesn't leave the keys it entered
+   * marked as visiting, where other dependents reaching them would see a cycle.
+   */
+  private traceWeakElement(trace: () => void, state: TraceState): void {
+    const entered = new Set(state.visiting);
+    try {
+      trace();
+    } finally {
+      for (const keyStr of state.visiting) {
+        if (!entered.has(keyStr)) {
+          state.visiting.delete(keyStr);
+        }
+      }
+    }
+  }
+
+  /**
+   * Remove a weak element from the step of its set, and the set's steps if it was the last element
+   */
+  private dropWeakElement({ setKey, binding }: WeakElement, state: TraceState): void {
+    for (const step of state.steps.values()) {
+      if (!Array.isArray(step.binding) || !step.binding.includes(binding)) {
+        continue;
+      }
+
+      const elements: AnyBinding[] = step.binding.filter(element => element !== binding);
+      if (elements.length > 0) {
+        state.steps.set(step.key.toMapKey(), {
+          ...step,
+          binding: elements,
+          dependencies: elements.flatMap(element => this.getDependencies(element)),
+        });
+        return;
+      }
+
+      // Like a set whose elements all failed while tracing: the set gets no steps.
+      // With modifiers, its binding step and the steps of all but the last modifier have modified keys.
+      state.steps.delete(setKey.toMapKey());
+      let applied = 0;
+      while (state.steps.delete(DIKey.modified(setKey, applied).toMapKey())) {
+        applied++;
+      }
+      return;
+    }
+  }
+
+  /**
+   * Trace a single dependency. Without an errors array this is traceDependencies();
+   * with one, a planning error for the dependency is recorded and tracing continues
+   * with the caller's remaining dependencies. Lazy dependencies are deferred.
+   */
+  private traceDependency(
+    key: DIKey,
+    pathActivation: PathActivation,
+    path: PathEntry[],
+    state: TraceState,
+  ): void {
+    if (key.isLazy()) {
+      state.deferred.push({ key, pathActivation, path, weakElement: state.weakElement });
+      return;
+    }
+
+    if (!state.errors) {
+      this.traceDependencies(key, pathActivation, path, state);
+      return;
+    }
+
+    try {
+      this.traceDependencies(key, pathActivation, path, state);
+    } catch (error) {
+      if (!(error instanceof PlanningError)) {
+        throw error;
+      }
+      state.errors.push(error);
+      // Report each failing key once. A cycle is reported where it is closed,
+      // the key that was re-entered is still being traced.
+      if (!(error instanceof CircularDependencyError)) {
+        state.visited.add(key.toMapKey());
+      }
+    }
+  }
+
   /**
    * Trace dependencies recursively, building the plan with path-aware activation tracking.
    *
@@ -260,17 +559,17 @@ export class Planner {
    * constraints for the rest of the dependency traversal. For example, if we select a binding
    * tagged with "env:prod" and "region:us", then deeper dependencies cannot use bindings
    * tagged with "env:test" or "region:eu".
+   *
+   * An optional dependency without a binding valid on the path is recorded as absent instead of failing.
    */
   private traceDependencies(
-    key: DIKey,
-    bindingIndex: Map<string, AnyBinding[]>,
+    dependency: DIKey,
     pathActivation: PathActivation,
-    steps: Map<string, PlanStep>,
-    visiting: Set<string>,
-    visited: Set<string>,
-    path: DIKey[],
-    parentLocator?: import('@/distage/core/Locator').Locator,
+    path: PathEntry[],
+    state: TraceState,
   ): void {
+    const { bindingIndex, visiting, visited, parentLocator } = state;
+    const key = dependency.withoutModifier();
     const keyStr = key.toMapKey();
 
     // Already processed
@@ -280,7 +579,14 @@ export class Planner {
 
     // Cycle detection
     if (visiting.has(keyStr)) {
-      throw new CircularDependencyError([...path, key]);
+      if (state.cycles === 'proxy') {
+        this.proxyCycle(key, path, state);
+        return;
+      }
+      throw new CircularDependencyError(
+        [...path.map(entry => entry.key), key],
+        path.map(entry => entry.binding.origin),
+      );
     }
 
     // Get candidate bindings for this key
@@ -288,22 +594,57 @@ export class Planner {
     if (!candidates || candidates.length === 0) {
       // Check if the key exists in the parent locator
       if (parentLocator && parentLocator.has(key)) {
+        // Modifiers of the child apply to the value of the parent, which is then planned as the first step
+        const modifiers = state.modifierIndex.get(keyStr) ?? [];
+        if (modifiers.some(modifier => pathActivation.isBindingValid(modifier))) {
+          visiting.add(keyStr);
+          this.addSteps({
+            key,
+            binding: Bindings.factory(key, Functoid.fromFunctionUnsafe(() => parentLocator.get(key))),
+            dependencies: [],
+            scope: 'singleton',
+          }, pathActivation, path, state);
+          visiting.delete(keyStr);
+        }
         // Mark as visited - this dependency will come from parent
         visited.add(keyStr);
         return;
       }
 
+      if (dependency.isOptional()) {
+        // Not marked as visited: a required dependency on the same key must still fail
+        state.absent.set(keyStr, key);
+        return;
+      }
+
       const requiredBy = path.length > 0 ? path[path.length - 1] : undefined;
-      throw new MissingDependencyError(key, requiredBy);
+      throw new MissingDependencyError(
+        key,
+        requiredBy?.key,
+        requiredBy?.binding.origin,
+        [...path.map(entry => entry.key), key],
+        this.suggestAlternatives(key, bindingIndex, pathActivation.getBaseActivation()),
+      );
+    }
+
+    if (state.inspectedAxes) {
+      for (const candidate of candidates) {
+        for (const axis of candidate.tags.getTags().keys()) {
+          state.inspectedAxes.add(axis);
+        }
+      }
+    }
+
+    if (dependency.isOptional() && !candidates.some(b => pathActivation.isBindingValid(b))) {
+      state.absent.set(keyStr, key);
+      return;
     }
 
     // Select the most appropriate binding given current path constraints
-    const requiredBy = path.length > 0 ? path[path.length - 1] : undefined;
-    const bindingOrBindings = this.selectBinding(key, candidates, pathActivation, requiredBy);
+    const bindingOrBindings = this.selectBinding(key, candidates, pathActivation, path, bindingIndex);
 
     // Mark as visiting
     visiting.add(keyStr);
-    const newPath = [...path, key];
 
     // Handle array of bindings (for sets)
     if (Array.isArray(bindingOrBindings)) {
@@ -320,20 +661,23 @@ export class Planner {
           allDependencies.push(...deps);
 
           // Create new path activation with constraints from this binding
-          const newPathActivation = pathActivation.withBindingConstraints(binding);
-
-          // Trace each dependency with the new path activation
-          for (const dep of deps) {
-            this.traceDependencies(
-              dep,
-              bindingIndex,
-              newPathActivation,
-              steps,
-              visiting,
-              visited,
-              newPath,
-              parentLocator,
-            );
+          const entry = { key, binding };
+          const newPathActivation = pathActivation.withBindingConstraints(entry);
+          const newPath = [...path, entry];
+
+          // Trace each dependency with the new path activation.
+          // Errors of weak elements are never collected: they drop the element instead.
+          if (isWeak) {
+            const elementState = { ...state, errors: undefined, weakElement: { setKey: key, binding } };
+            this.traceWeakElement(() => {
+              for (const dep of deps) {
+                this.traceDependency(dep, newPathActivation, newPath, elementState);
+              }
+            }, state);
+          } else {
+            for (const dep of deps) {
+              this.traceDependency(dep, newPathActivation, newPath, state);
+            }
           }
 
           // If we got here without error, this binding is valid
@@ -350,40 +694,42 @@ export class Planner {
 
       // Add step with valid bindings only (Producer will handle the array)
       if (validBindings.length > 0) {
-        steps.set(keyStr, {
+        this.addSteps({
           key,
-          binding: validBindings as any,
+          binding: validBindings,
           dependencies: allDependencies,
-        });
+          scope: 'singleton',
+          ...this.proxiedDependencies(keyStr, state),
+        }, pathActivation, path, state);
       }
     } else {
       // Single binding (normal case)
       const binding = bindingOrBindings;
-      const dependencies = this.getDependencies(binding);
 
       // Create new path activation with constraints from this binding
-      const newPathActivation = pathActivation.withBindingConstraints(binding);
+      const entry = { key, binding };
+      const newPathActivation = pathActivation.withBindingConstraints(entry);
+      const newPath = [...path, entry];
+
+      const runtimeParams = this.inferRuntimeParams(binding, newPathActivation, state);
+      const dependencies = runtimeParams
+        ? assistedDependencies(binding as AssistedFactoryBinding, runtimeParams)
+        : this.getDependencies(binding);
 
       // Trace dependencies recursively with the new path activation
       for (const dep of dependencies) {
-        this.traceDependencies(
-          dep,
-          bindingIndex,
-          newPathActivation,
-          steps,
-          visiting,
-          visited,
-          newPath,
-          parentLocator,
-        );
+        this.traceDependency(dep, newPathActivation, newPath, state);
       }
 
       // Add step for this key
-      steps.set(keyStr, {
+      this.addSteps({
         key,
         binding,
         dependencies,
-      });
+        scope: binding.scope ?? 'singleton',
+        ...this.proxiedDependencies(keyStr, state),
+        ...(runtimeParams ? { runtimeParams } : {}),
+      }, pathActivation, path, state);
     }
 
     // Mark as visited
@@ -391,6 +737,177 @@ export class Planner {
     visited.add(keyStr);
   }
 
+  /**
+   * Infer the runtime parameters of an assisted factory bound with factoryOf() without runtime
+   * types: the factory parameters that no binding valid on the path, nor the parent locator, provides.
+   * Optional parameters are resolved by DI. Returns undefined for all other bindings.
+   */
+  private inferRuntimeParams(
+    binding: AnyBinding,
+    pathActivation: PathActivation,
+    state: TraceState,
+  ): number[] | undefined {
+    if (binding.kind !== BindingKind.AssistedFactory || !binding.inferRuntimeParams) {
+      return undefined;
+    }
+
+    const provided = (key: DIKey) =>
+      (state.bindingIndex.get(key.toMapKey()) ?? []).some(candidate => pathActivation.isBindingValid(candidate)) ||
+      (state.parentLocator?.has(key) ?? false);
+
+    return binding.factory.getDependencies()
+      .map((dependency, index) =>
+        dependency.isOptional() || provided(dependency.withoutModifier()) ? -1 : index)
+      .filter(index => index !== -1);
+  }
+
+  /**
+   * Add the step of a key, followed by a step for each of its modifiers valid on the path.
+   * Each modifier step depends on the previous step and on the modifier's own dependencies.
+   * The last step is planned under the key itself, the others under DIKey.modified() keys.
+   */
+  private addSteps(step: PlanStep, pathActivation: PathActivation, path: PathEntry[], state: TraceState): void {
+    const key = step.key;
+    const keyStr = key.toMapKey();
+    const candidates = state.modifierIndex.get(keyStr) ?? [];
+    const modifiers = candidates.filter(modifier => pathActivation.isBindingValid(modifier));
+
+    if (state.inspectedAxes) {
+      for (const modifier of candidates) {
+        for (const axis of modifier.tags.getTags().keys()) {
+          state.inspectedAxes.add(axis);
+        }
+      }
+    }
+
+    if (modifiers.length === 0) {
+      state.steps.set(keyStr, step);
+      return;
+    }
+
+    let previous = DIKey.modified(key, 0);
+    state.steps.set(previous.toMapKey(), { ...step, key: previous });
+
+    modifiers.forEach((modifier, index) => {
+      const ownDependencies = modifier.factory.getDependencies().slice(1);
+      const entry = { key, binding: modifier };
+      const newPathActivation = pathActivation.withBindingConstraints(entry);
+      for (const dep of ownDependencies) {
+        this.traceDependency(dep, newPathActivation, [...path, entry], state);
+      }
+
+      const stepKey = index === modifiers.length - 1 ? key : DIKey.modified(key, index + 1);
+      const proxied = (state.proxied.get(keyStr) ?? []).filter(p => ownDependencies.some(dep => dep.equals(p)));
+      state.steps.set(stepKey.toMapKey(), {
+        key: stepKey,
+        binding: modifier,
+        dependencies: [previous, ...ownDependencies],
+        scope: step.scope,
+        ...(proxied.length > 0 ? { proxiedDependencies: proxied } : {}),
+      });
+      previous = stepKey;
+    });
+  }
+
+  /**
+   * Break the cycle closed by re-entering a key with a proxy for one of its class bindings,
+   * preferring the re-entered key. The edge into the proxied key is recorded on its dependent.
+   * @throws CircularDependencyError stating why no key of the cycle can be proxied
+   */
+  private proxyCycle(key: DIKey, path: PathEntry[], state: TraceState): void {
+    const members = path.slice(path.findIndex(entry => entry.key.equals(key)));
+    const restrictions: string[] = [];
+
+    for (let i = 0; i < members.length; i++) {
+      const restriction = proxyRestriction(members[i], state.modifierIndex.has(members[i].key.toMapKey()));
+      if (restriction !== undefined) {
+        restrictions.push(restriction);
+        continue;
+      }
+
+      const dependent = i === 0 ? path[path.length - 1] : members[i - 1];
+      const dependentStr = dependent.key.toMapKey();
+      state.proxied.set(dependentStr, [...(state.proxied.get(dependentStr) ?? []), members[i].key]);
+      return;
+    }
+
+    throw new CircularDependencyError(
+      [...path.map(entry => entry.key), key],
+      path.map(entry => entry.binding.origin),
+      restrictions.join('; '),
+    );
+  }
+
+  /**
+   * The proxied dependencies of a step, if there are any
+   */
+  private proxiedDependencies(keyStr: string, state: TraceState): Pick<PlanStep, 'proxiedDependencies'> {
+    const proxied = state.proxied.get(keyStr);
+    return proxied ? { proxiedDependencies: proxied } : {};
+  }
+
+  /**
+   * Find bindings close to a key that has no usable binding, for "did you mean" hints:
+   * - bindings of the key itself that the activation filters out, with the axis choices enabling them
+   * - bindings of the same type with a different @Id
+   * - bindings with the same @Id but a different type
+   * - bindings of a type or token with a similar name (likely typos)
+   */
+  private suggestAlternatives(
+    key: DIKey,
+    bindingIndex: Map<string, AnyBinding[]>,
+    activation: Activation,
+  ): string[] {
+    const suggestions: string[] = [];
+    const describe = (binding: AnyBinding, hint: string) => {
+      const tags = binding.tags.describe();
+      const tagsStr = tags.length > 0 ? ` [${tags.join(', ')}]` : '';
+      const origin = binding.origin ? ` (defined at ${binding.origin.toString()})` : '';
+      return `${binding.key.toString()}${tagsStr}: ${hint}${origin}`;
+    };
+
+    for (const binding of bindingIndex.get(key.toMapKey()) ?? []) {
+      const missing = Array.from(binding.tags.getTags())
+        .filter(([axis, choice]) => activation.getChoice(axis) !== choice)
+        .map(([axis, choice]) => {
+          const current = activation.getChoice(axis);
+          const wanted = AxisPoint.of(axis, choice).toString();
+          return current !== undefined ? `${wanted} (currently ${AxisPoint.of(axis, current).toString()})` : wanted;
+        });
+      if (missing.length > 0) {
+        suggestions.push(describe(binding, `filtered out by the activation, enabled by ${missing.join(', ')}`));
+      }
+    }
+
+    const typeName = (tag: TypeTag) => TypeTag.toString(tag).replace(/^[a-z]+:/, '');
+    const sameType = (a: DIKey, b: DIKey) => new DIKey(a.type).equals(new DIKey(b.type));
+    const wantedName = typeName(key.type);
+
+    for (const [mapKey, bindings] of bindingIndex) {
+      if (mapKey === key.toMapKey()) {
+        continue;
+      }
+      const binding = bindings[0];
+      const candidate = binding.key;
+
+      if (sameType(candidate, key)) {
+        suggestions.push(describe(binding, 'same type with a different @Id'));
+      } else if (key.id !== undefined && candidate.id === key.id) {
+        suggestions.push(describe(binding, 'same @Id with a different type'));
+      } else if (candidate.id === key.id && TypeTag.toString(candidate.type) === TypeTag.toString(key.type)) {
+        suggestions.push(describe(binding, 'a different type with the same name'));
+      } else {
+        const name = typeName(candidate.type);
+        const maxDistance = Math.max(1, Math.floor(Math.max(name.length, wantedName.length) / 4));
+        if (editDistance(name.toLowerCase(), wantedName.toLowerCase()) <= maxDistance) {
+          suggestions.push(describe(binding, 'similar name'));
+        }
+      }
+    }
+
+    return suggestions;
+  }
+
   /**
    * Get dependencies for a binding
    */
@@ -405,6 +922,9 @@ export class Planner {
       case BindingKind.Factory:
         return (binding as FactoryBinding).factory.getDependencies();
 
+      case BindingKind.Resource:
+        return (binding as ResourceBinding).factory.getDependencies();
+
       case BindingKind.Alias:
         return [(binding as AliasBinding).target];
 
@@ -415,9 +935,12 @@ export class Planner {
         return this.getDependencies(setBinding.element);
 
       case BindingKind.AssistedFactory:
-        // Assisted factory dependencies are resolved at construction time
-        // For now, we assume no dependencies (runtime params are provided)
-        return [];
+        // Runtime parameters are provided by the caller of the factory
+        return assistedDependencies(binding as AssistedFactoryBinding);
+
+      case BindingKind.Modifier:
+        // The modified value itself comes from the previous step (see addSteps())
+        return (binding as ModifierBinding).factory.getDependencies().slice(1);
 
       default:
         throw new Error(`Unknown binding kind: ${(binding as any).kind}`);
@@ -446,8 +969,11 @@ export class Planner {
 
       visiting.add(keyStr);
 
-      // Visit dependencies first
-      for (const depKey of step.dependencies) {
+      // Visit dependencies first; lazy ones are only needed once production is complete,
+      // proxied ones once the proxy is used
+      const proxied = step.proxiedDependencies ?? [];
+      const needed = step.dependencies.filter(dep => !dep.isLazy() && !proxied.some(p => p.equals(dep)));
+      for (const depKey of needed) {
         const depStep = steps.find(s => s.key.equals(depKey));
         if (depStep) {
           visit(depStep);
@@ -466,3 +992,62 @@ export class Planner {
     return sorted;
   }
 }
+
+/**
+ * Why a key on a cycle cannot be replaced by a proxy, or undefined if it can.
+ * Only class bindings without modifiers can: their prototype is known before the instance
+ * is produced, and they are constructed synchronously.
+ */
+function proxyRestriction(entry: PathEntry, modified: boolean): string | undefined {
+  const name = entry.key.toString();
+
+  if (modified) {
+    return `${name} has modifiers, which may replace its instance`;
+  }
+  if (entry.key.type.kind === 'primitive') {
+    return `${name} is a primitive`;
+  }
+  if (entry.binding.scope === 'transient') {
+    return `${name} is transient`;
+  }
+
+  switch (entry.binding.kind) {
+    case BindingKind.Class:
+      return undefined;
+    case BindingKind.Instance:
+      return `${name} is bound to an instance value`;
+    case BindingKind.Factory:
+      return (entry.binding as FactoryBinding).factory.isAsyncFunctoid()
+        ? `${name} is produced by an async factory`
+        : `${name} is produced by a factory, which has no class to proxy`;
+    case BindingKind.Resource:
+      return `${name} is a resource`;
+    case BindingKind.Alias:
+      return `${name} is an alias`;
+    case BindingKind.Set:
+    case BindingKind.WeakSet:
+      return `${name} is a set`;
+    case BindingKind.AssistedFactory:
+      return `${name} is an assisted factory`;
+    case BindingKind.Modifier:
+      return `${name} has modifiers, which may replace its instance`;
+  }
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
@@ -9,9 +9,53 @@ import {
   SetBinding,
   WeakSetBinding,
   AssistedFactoryBinding,
+  ResourceBinding,
 } from '@/distage/model/Binding';
+import { LifecycleManager, releaseAfterFailure } from '@/distage/model/Lifecycle';
 import { Plan, PlanStep } from '@/distage/core/Plan';
 import { Locator, LocatorImpl } from '@/distage/core/Locator';
+import { createCycleProxy, isCycleProxy, resolveCycleProxy } from '@/distage/core/CycleProxy';
+
+/**
+ * A plan step that failed during production
+ */
+export interface ProvisioningFailure {
+  key: DIKey;
+  cause: unknown;
+}
+
+/**
+ * Error thrown when asynchronous production fails.
+ * Lists every step that failed with its cause, and the steps that were never attempted
+ * because production stopped after the first failure.
+ */
+export class ProvisioningError extends Error {
+  constructor(
+    public readonly failures: ProvisioningFailure[],
+    public readonly notAttempted: DIKey[],
+  ) {
+    const failureLines = failures.map(f => {
+      const cause = f.cause instanceof Error ? f.cause.message : String(f.cause);
+      return `  - ${f.key.toString()}: ${cause}`;
+    });
+    const lines = [
+      `Provisioning failed for ${failures.length} key(s):`,
+      ...failureLines,
+    ];
+    if (notAttempted.length > 0) {
+      lines.push(`Never attempted: ${notAttempted.map(k => k.toString()).join(', ')}`);
+    }
+    super(lines.join('\n'), { cause: failures[0]?.cause });
+    this.name = 'ProvisioningError';
+  }
+}
+
+/**
+ * Stands in for the instance of a transient step, creating a new one whenever it is resolved
+ */
+class TransientProvider {
+  constructor(readonly create: () => any) {}
+}
 
 /**
  * The Producer executes a Plan to create instances.
@@ -19,7 +63,16 @@ import { Locator, LocatorImpl } from '@/distage/core/Locator';
  *
  * Supports both synchronous and asynchronous production:
  * - produce() for synchronous dependency graphs
- * - produceAsync() for graphs containing async factories
+ * - produceAsync() for graphs containing async factories or resources
+ *
+ * Resources (Lifecycle bindings) are acquired through a LifecycleManager owned
+ * by the produced Locator, so closing the Locator releases them in reverse order.
+ *
+ * Transient steps are not run during production: they create a new instance for every
+ * dependent, and the Locator keeps a function creating one per key (see Locator.create()).
+ *
+ * Keys that the plan resolves to a cycle proxy start out as proxies in the instances map,
+ * which are pointed at their instances as these are produced.
  */
 export class Producer {
   /**
@@ -27,23 +80,28 @@ export class Producer {
    * Will fail if any factories are async - use produceAsync() instead.
    */
   produce(plan: Plan, parentLocator?: Locator): Locator {
-    const instances = new Map<string, any>();
+    const instances = this.createCycleProxies(plan);
     const sets = new Map<string, Set<any>>();
 
     for (const step of plan.getSteps()) {
       this.executeStep(step, instances, sets, parentLocator);
     }
 
-    return new LocatorImpl(instances);
+    return this.locatorFor(plan, instances, parentLocator);
   }
 
   /**
    * Execute a plan asynchronously and produce a Locator with all instances.
    * Handles async factories and executes independent dependencies in parallel.
+   * Resources are acquired as their steps run and released by Locator.close().
+   *
+   * If any step fails, no new steps are started, in-flight steps are allowed to settle,
+   * resources acquired so far are released and a ProvisioningError is thrown.
    */
   async produceAsync(plan: Plan, parentLocator?: Locator): Promise<Locator> {
-    const instances = new Map<string, any>();
+    const instances = this.createCycleProxies(plan);
     const sets = new Map<string, Set<any>>();
+    const lifecycleManager = new LifecycleManager();
 
     // Build dependency map: key -> set of keys it depends on
     const steps = plan.getSteps();
@@ -51,16 +109,25 @@ export class Producer {
     const stepByKey = new Map<string, PlanStep>();
 
     for (const step of steps) {
-      const keyStr = step.key.toMapKey();
-      stepByKey.set(keyStr, step);
-      dependencyMap.set(keyStr, new Set(step.dependencies.map(dep => dep.toMapKey())));
+      stepByKey.set(step.key.toMapKey(), step);
+    }
+    // Only wait for dependencies planned here, not for parent, absent optional, lazy or proxied ones
+    for (const step of steps) {
+      const proxied = step.proxiedDependencies ?? [];
+      const deps = step.dependencies
+        .filter(dep => !dep.isLazy() && !proxied.some(p => p.equals(dep)))
+        .map(dep => dep.toMapKey())
+        .filter(dep => stepByKey.has(dep));
+      dependencyMap.set(step.key.toMapKey(), new Set(deps));
     }
 
     // Execute steps in waves: in each wave, execute all steps whose dependencies are satisfied
     const completed = new Set<string>();
     const inProgress = new Map<string, Promise<void>>();
+    const failures: ProvisioningFailure[] = [];
 
-    while (completed.size < steps.length) {
+    // Stop scheduling new steps as soon as one fails
+    while (failures.length === 0 && completed.size < steps.length) {
       // Find all steps ready to execute (dependencies satisfied)
       const ready: PlanStep[] = [];
 
@@ -74,20 +141,7 @@ export class Producer {
 
         // Check if all dependencies are completed
         const deps = dependencyMap.get(keyStr)!;
-        const allDepsCompleted = Array.from(deps).every(dep => {
-          // Check if completed in current context
-          if (completed.has(dep)) {
-            return true;
-          }
-          // Check if available in instances (might have been created by another wave)
-          if (instances.has(dep)) {
-            return true;
-          }
-          // Check if available in parent locator
-          // Note: We can't easily check parent without the original DIKey,
-          // but the planner should have validated this already
-          return false;
-        });
+        const allDepsCompleted = Array.from(deps).every(dep => completed.has(dep));
 
         if (allDepsCompleted) {
           ready.push(step);
@@ -96,30 +150,122 @@ export class Producer {
 
       if (ready.length === 0 && inProgress.size === 0) {
         // No progress can be made - this shouldn't happen with a valid plan
-        throw new Error('Circular dependency detected or invalid plan');
+        return await releaseAfterFailure(
+          new Error('Circular dependency detected or invalid plan'),
+          () => lifecycleManager.releaseAll(),
+        );
       }
 
       // Execute all ready steps in parallel
       for (const step of ready) {
         const keyStr = step.key.toMapKey();
-        const promise = this.executeStepAsync(step, instances, sets, parentLocator)
-          .then(() => {
-            completed.add(keyStr);
+        const promise = this.executeStepAsync(step, instances, sets, lifecycleManager, parentLocator)
+          .then(
+            () => {
+              completed.add(keyStr);
+            },
+            (cause) => {
+              failures.push({ key: step.key, cause });
+            },
+          )
+          .finally(() => {
             inProgress.delete(keyStr);
           });
         inProgress.set(keyStr, promise);
       }
 
-      // Wait for at least one to complete before checking for more ready steps
+      // Wait for at least one to settle before checking for more ready steps
       if (inProgress.size > 0) {
         await Promise.race(inProgress.values());
       }
     }
 
-    // Wait for any remaining in-progress steps
+    // Wait for in-flight steps to settle, so everything they acquire is tracked
     await Promise.all(inProgress.values());
 
-    return new LocatorImpl(instances);
+    if (failures.length > 0) {
+      const failed = new Set(failures.map(f => f.key.toMapKey()));
+      const notAttempted = steps
+        .filter(step => {
+          const keyStr = step.key.toMapKey();
+          return !completed.has(keyStr) && !failed.has(keyStr);
+        })
+        .map(step => step.key);
+
+      // Release everything created so far before reporting the failure
+      return await releaseAfterFailure(
+        new ProvisioningError(failures, notAttempted),
+        () => lifecycleManager.releaseAll(),
+      );
+    }
+
+    return this.locatorFor(plan, instances, parentLocator, lifecycleManager);
+  }
+
+  /**
+   * Create the instances map with a proxy for every key that a step resolves to a cycle proxy.
+   * The planner only proxies class bindings, whose prototype the proxy takes.
+   */
+  private createCycleProxies(plan: Plan): Map<string, any> {
+    const instances = new Map<string, any>();
+
+    for (const step of plan.getSteps()) {
+      for (const key of step.proxiedDependencies ?? []) {
+        const binding = plan.getStep(key)!.binding as ClassBinding;
+        const implementation = binding.factory.getImplementation();
+        const prototype = typeof implementation === 'function' ? implementation.prototype : Object.prototype;
+        if (!instances.has(key.toMapKey())) {
+          instances.set(key.toMapKey(), createCycleProxy(key, prototype));
+        }
+      }
+    }
+
+    return instances;
+  }
+
+  /**
+   * Store a produced instance, pointing its cycle proxy at it if there is one
+   */
+  private storeInstance(keyStr: string, instance: any, instances: Map<string, any>): void {
+    const existing = instances.get(keyStr);
+    if (isCycleProxy(existing)) {
+      resolveCycleProxy(existing, instance);
+    }
+    instances.set(keyStr, instance);
+  }
+
+  /**
+   * Create the Locator for the produced instances, able to create new instances of every
+   * planned key. Transient keys have no instance, so the Locator creates one per lookup.
+   */
+  private locatorFor(
+    plan: Plan,
+    instances: Map<string, any>,
+    parentLocator?: Locator,
+    lifecycleManager?: LifecycleManager,
+  ): Locator {
+    const singletons = new Map(
+      Array.from(instances).filter(([, instance]) => !(instance instanceof TransientProvider)),
+    );
+    const creators = new Map(
+      plan.getSteps().map(step => [step.key.toMapKey(), this.creatorOf(step, instances, parentLocator)]),
+    );
+    return new LocatorImpl(singletons, this.keysOf(plan), lifecycleManager, creators);
+  }
+
+  /**
+   * Get a function creating a new instance for a plan step, resolving its dependencies
+   * from the instances produced so far
+   */
+  private creatorOf(step: PlanStep, instances: Map<string, any>, parentLocator?: Locator): () => any {
+    return () => this.createInstance(step, instances, new Map(), parentLocator);
+  }
+
+  /**
+   * Index the keys of the plan steps, so the Locator can return the real keys of its instances
+   */
+  private keysOf(plan: Plan): Map<string, DIKey> {
+    return new Map(plan.getSteps().map(step => [step.key.toMapKey(), step.key]));
   }
 
   /**
@@ -134,12 +280,18 @@ export class Producer {
     const keyStr = step.key.toMapKey();
 
     // Skip if already created (can happen with sets)
-    if (instances.has(keyStr)) {
+    if (instances.has(keyStr) && !isCycleProxy(instances.get(keyStr))) {
+      return;
+    }
+
+    // Transient instances are created as they are resolved
+    if (step.scope === 'transient') {
+      instances.set(keyStr, new TransientProvider(this.creatorOf(step, instances, parentLocator)));
       return;
     }
 
     const instance = this.createInstance(step, instances, sets, parentLocator);
-    instances.set(keyStr, instance);
+    this.storeInstance(keyStr, instance, instances);
   }
 
   /**
@@ -149,17 +301,24 @@ export class Producer {
     step: PlanStep,
     instances: Map<string, any>,
     sets: Map<string, Set<any>>,
+    lifecycleManager: LifecycleManager,
     parentLocator?: Locator,
   ): Promise<void> {
     const keyStr = step.key.toMapKey();
 
     // Skip if already created (can happen with sets)
-    if (instances.has(keyStr)) {
+    if (instances.has(keyStr) && !isCycleProxy(instances.get(keyStr))) {
       return;
     }
 
-    const instance = await this.createInstanceAsync(step, instances, sets, parentLocator);
-    instances.set(keyStr, instance);
+    // Transient bindings are synchronous, their instances are created as they are resolved
+    if (step.scope === 'transient') {
+      instances.set(keyStr, new TransientProvider(this.creatorOf(step, instances, parentLocator)));
+      return;
+    }
+
+    const instance = await this.createInstanceAsync(step, instances, sets, lifecycleManager, parentLocator);
+    this.storeInstance(keyStr, instance, instances);
   }
 
   /**
@@ -192,6 +351,8 @@ export class Producer {
         return this.createFromClass(binding as ClassBinding, step.dependencies, instances, parentLocator);
 
       case BindingKind.Factory:
+      case BindingKind.Modifier:
+        // A modifier takes the value from the previous step, which is its first dependency
         return this.createFromFactory(binding as FactoryBinding, step.dependencies, instances, parentLocator);
 
       case BindingKind.Alias:
@@ -202,7 +363,13 @@ export class Producer {
         return this.createSet(binding as SetBinding | WeakSetBinding, sets, instances, parentLocator);
 
       case BindingKind.AssistedFactory:
-        return this.createAssistedFactory(binding as AssistedFactoryBinding, instances, parentLocator);
+        return this.createAssistedFactory(binding as AssistedFactoryBinding, step, instances, parentLocator);
+
+      case BindingKind.Resource:
+        throw new Error(
+          `Cannot acquire resource ${step.key.toString()} synchronously. ` +
+          `Use produceAsync() for plans containing resource bindings.`
+        );
 
       default:
         throw new Error(`Unknown binding kind: ${(binding as any).kind}`);
@@ -216,6 +383,7 @@ export class Producer {
     step: PlanStep,
     instances: Map<string, any>,
     sets: Map<string, Set<any>>,
+    lifecycleManager: LifecycleManager,
     parentLocator?: Locator,
   ): Promise<any> {
     const binding = step.binding;
@@ -239,6 +407,7 @@ export class Producer {
         return await this.createFromClassAsync(binding as ClassBinding, step.dependencies, instances, parentLocator);
 
       case BindingKind.Factory:
+      case BindingKind.Modifier:
         return await this.createFromFactoryAsync(binding as FactoryBinding, step.dependencies, instances, parentLocator);
 
       case BindingKind.Alias:
@@ -249,7 +418,19 @@ export class Producer {
         return await this.createSetAsync(binding as SetBinding | WeakSetBinding, sets, instances, parentLocator);
 
       case BindingKind.AssistedFactory:
-        return this.createAssistedFactoryAsync(binding as AssistedFactoryBinding, instances, parentLocator);
+        // Typed factories return instances as their type declares, the others promises
+        return (binding as AssistedFactoryBinding).typed
+          ? this.createAssistedFactory(binding as AssistedFactoryBinding, step, instances, parentLocator)
+          : this.createAssistedFactoryAsync(binding as AssistedFactoryBinding, step, instances, parentLocator);
+
+      case BindingKind.Resource:
+        return await this.acquireResourceAsync(
+          binding as ResourceBinding,
+          step.dependencies,
+          instances,
+          lifecycleManager,
+          parentLocator,
+        );
 
       default:
         throw new Error(`Unknown binding kind: ${(binding as any).kind}`);
@@ -418,25 +599,59 @@ export class Producer {
    */
   private createAssistedFactory(
     binding: AssistedFactoryBinding,
+    step: PlanStep,
     instances: Map<string, any>,
     parentLocator?: Locator,
   ): (...runtimeArgs: any[]) => any {
     // Return a factory function that takes runtime arguments
     // and combines them with DI-resolved dependencies
     return (...runtimeArgs: any[]) => {
-      const allDeps = binding.factory.getDependencies();
-
-      // For now, we assume runtime args come first, then DI deps
-      // In a more sophisticated version, you'd use parameter names to match
-      const diArgs = allDeps
-        .slice(binding.assistedParams.length)
-        .map((dep: DIKey) => this.resolveInstance(dep, instances, parentLocator));
-
-      const allArgs = [...runtimeArgs, ...diArgs];
-      return binding.factory.execute(allArgs);
+      return binding.factory.execute(this.assistedArgs(binding, step, runtimeArgs, instances, parentLocator));
     };
   }
 
+  /**
+   * Put the runtime arguments of an assisted factory call at the positions of their
+   * parameters, and resolve all other parameters
+   * @throws Error if the call has more arguments than runtime parameters, or, if these were inferred,
+   *   a different number
+   */
+  private assistedArgs(
+    binding: AssistedFactoryBinding,
+    step: PlanStep,
+    runtimeArgs: any[],
+    instances: Map<string, any>,
+    parentLocator?: Locator,
+  ): any[] {
+    const dependencies = binding.factory.getDependencies();
+    const runtimeParams = step.runtimeParams ?? binding.runtimeParams;
+    if (binding.inferRuntimeParams && runtimeArgs.length !== runtimeParams.length) {
+      const inferred = runtimeParams.map(index => dependencies[index].toString()).join(', ') || 'none';
+      throw new Error(
+        `${binding.key.toString()} was called with ${runtimeArgs.length} argument(s), but its runtime parameters ` +
+        `are inferred as the parameters without a binding: ${inferred}. Pass the runtime types to factoryOf() ` +
+        `to choose them`
+      );
+    }
+    if (runtimeArgs.length > runtimeParams.length) {
+      // Previous versions passed the arguments as the first parameters: don't drop them silently
+      const declared = binding.assistedParams.join(', ') || 'none';
+      throw new Error(
+        `${binding.key.toString()} was called with ${runtimeArgs.length} argument(s), but it only has ` +
+        `${runtimeParams.length} runtime parameter(s): ${declared}. Declare the runtime parameters of the factory ` +
+        `by name or DIKey`
+      );
+    }
+    const count = Math.max(dependencies.length, ...runtimeParams.map(index => index + 1));
+
+    return Array.from({ length: count }, (_, index) => {
+      const runtimeIndex = runtimeParams.indexOf(index);
+      return runtimeIndex !== -1
+        ? runtimeArgs[runtimeIndex]
+        : this.resolveInstance(dependencies[index], instances, parentLocator);
+    });
+  }
+
   /**
    * Resolve an instance from either the current instances map or the parent locator
    */
@@ -445,9 +660,16 @@ export class Producer {
     instances: Map<string, any>,
     parentLocator?: Locator,
   ): any {
+    if (key.isLazy()) {
+      return this.lazyInstance(key.withoutModifier(), instances, parentLocator);
+    }
+
     const keyStr = key.toMapKey();
     const instance = instances.get(keyStr);
 
+    if (instance instanceof TransientProvider) {
+      return instance.create();
+    }
     if (instance !== undefined) {
       return instance;
     }
@@ -460,9 +682,34 @@ export class Producer {
       }
     }
 
+    // The planner found no binding for an optional dependency
+    if (key.isOptional()) {
+      return undefined;
+    }
+
     throw new Error(`Dependency not found: ${key.toString()}`);
   }
 
+  /**
+   * Create the function a lazy dependency resolves to. The instances map is filled
+   * as production goes on, so the function fails only if called too early.
+   */
+  private lazyInstance(
+    key: DIKey,
+    instances: Map<string, any>,
+    parentLocator?: Locator,
+  ): () => any {
+    return () => {
+      const instance = instances.has(key.toMapKey())
+        ? instances.get(key.toMapKey())
+        : parentLocator?.find(key);
+      if (instance === undefined) {
+        throw new Error(`Lazy dependency ${key.toString()} was used before it was produced`);
+      }
+      return instance instanceof TransientProvider ? instance.create() : instance;
+    };
+  }
+
   // ============================================================================
   // Async versions of methods
   // ============================================================================
@@ -497,6 +744,22 @@ export class Producer {
     return result instanceof Promise ? await result : result;
   }
 
+  /**
+   * Build the Lifecycle of a resource binding and acquire it through the
+   * Locator's LifecycleManager, so it is released when the Locator is closed
+   */
+  private async acquireResourceAsync(
+    binding: ResourceBinding,
+    dependencies: DIKey[],
+    instances: Map<string, any>,
+    lifecycleManager: LifecycleManager,
+    parentLocator?: Locator,
+  ): Promise<any> {
+    const args = dependencies.map(dep => this.resolveInstance(dep, instances, parentLocator));
+    const lifecycle = await binding.factory.execute(args);
+    return await lifecycleManager.acquire(lifecycle);
+  }
+
   /**
    * Resolve an alias binding (async)
    */
@@ -625,21 +888,14 @@ export class Producer {
    */
   private createAssistedFactoryAsync(
     binding: AssistedFactoryBinding,
+    step: PlanStep,
     instances: Map<string, any>,
     parentLocator?: Locator,
   ): (...runtimeArgs: any[]) => any | Promise<any> {
     // Return a factory function that takes runtime arguments
     // and combines them with DI-resolved dependencies
     return async (...runtimeArgs: any[]) => {
-      const allDeps = binding.factory.getDependencies();
-
-      // For now, we assume runtime args come first, then DI deps
-      const diArgs = allDeps
-        .slice(binding.assistedParams.length)
-        .map((dep: DIKey) => this.resolveInstance(dep, instances, parentLocator));
-
-      const allArgs = [...runtimeArgs, ...diArgs];
-      const result = binding.factory.execute(allArgs);
+      const result = binding.factory.execute(this.assistedArgs(binding, step, runtimeArgs, instances, parentLocator));
       return result instanceof Promise ? await result : result;
     };
   }
@@ -23,11 +23,12 @@
  *   const handler = subcontext.get(DIKey.of(RequestHandler));
  */
 
-import { Locator, LocatorImpl } from '@/distage/core/Locator';
+import { Locator, LocatorImpl, findAssignable } from '@/distage/core/Locator';
 import { Injector, InjectorOptions } from '@/distage/core/Injector';
 import { ModuleDef } from '@/distage/dsl/ModuleDef';
 import { DIKey, Callable } from '@/distage/model/DIKey';
 import { Activation } from '@/distage/model/Activation';
+import { releaseAfterFailure } from '@/distage/model/Lifecycle';
 
 /**
  * A subcontext is a child locator that inherits from a parent locator
@@ -72,6 +73,13 @@ export class Subcontext implements Locator {
     return this.parent.get(key);
   }
 
+  /**
+   * Create a new instance of a key planned in the child, or else in the parent
+   */
+  create<T>(key: DIKey<T>): T {
+    return this.childLocator.has(key) ? this.childLocator.create(key) : this.parent.create(key);
+  }
+
   /**
    * Get an instance by type
    */
@@ -162,6 +170,39 @@ export class Subcontext implements Locator {
     }
   }
 
+  /**
+   * Get all keys in the subcontext with their instances, child instances shadowing parent ones
+   */
+  *entries(): IterableIterator<[DIKey, any]> {
+    const seen = new Set<string>();
+
+    for (const [key, instance] of this.childLocator.entries()) {
+      seen.add(key.toMapKey());
+      yield [key, instance];
+    }
+
+    for (const [key, instance] of this.parent.entries()) {
+      if (!seen.has(key.toMapKey()) && !this.childLocator.has(key)) {
+        yield [key, instance];
+      }
+    }
+  }
+
+  /**
+   * Get every instance bound to the given type in the child or the parent, child instances shadowing parent ones
+   */
+  instancesOf<T>(type: Callable<T>): Array<[DIKey<T>, T]> {
+    return Array.from(this.entries())
+      .filter(([key]) => key.getCallable() === type);
+  }
+
+  /**
+   * Find every instance assignable to the given type in the child or the parent
+   */
+  findAllAssignableTo<T>(type: Callable<T>): T[] {
+    return findAssignable(Array.from(this.entries(), ([, instance]) => instance), type);
+  }
+
   /**
    * Close the subcontext and release its resources
    * Note: This does NOT close the parent locator
@@ -170,6 +211,21 @@ export class Subcontext implements Locator {
     await this.childLocator.close();
   }
 
+  /**
+   * Run a function with this subcontext and close it afterwards
+   * Note: Like close(), this does NOT close the parent locator
+   */
+  async use<R>(fn: (locator: this) => R | Promise<R>): Promise<R> {
+    let result: R;
+    try {
+      result = await fn(this);
+    } catch (error) {
+      return await releaseAfterFailure(error, () => this.close());
+    }
+    await this.close();
+    return result;
+  }
+
   /**
    * Create a nested subcontext (subcontext of a subcontext)
    */
@@ -0,0 +1,162 @@
+import { DIKey } from '@/distage/model/DIKey';
+import { Activation, Axis } from '@/distage/model/Activation';
+import {
+  AnyBinding,
+  AliasBinding,
+  BindingKind,
+  SetBinding,
+  WeakSetBinding,
+} from '@/distage/model/Binding';
+import { ModuleDef } from '@/distage/dsl/ModuleDef';
+import { Planner } from '@/distage/core/Planner';
+import { PlanVerifier, PlanVerificationError } from '@/distage/core/PlanVerifier';
+import { Plan, PlanningError } from '@/distage/core/Plan';
+
+/**
+ * Bindings of a module that are never selected by the planner.
+ * The three lists are disjoint.
+ */
+export class UnusedBindingsReport {
+  constructor(
+    /** Bindings never selected, other than those listed below */
+    public readonly unused: AnyBinding[],
+    /** Weak set elements whose set is planned, but that are always dropped */
+    public readonly droppedWeakElements: (SetBinding | WeakSetBinding)[],
+    /** Alias bindings never selected whose target is never planned either */
+    public readonly unreachedAliases: AliasBinding[],
+  ) {}
+
+  /**
+   * Check if every binding is used
+   */
+  isEmpty(): boolean {
+    return this.unused.length === 0 &&
+      this.droppedWeakElements.length === 0 &&
+      this.unreachedAliases.length === 0;
+  }
+
+  /**
+   * Describe each finding as a warning line
+   */
+  warnings(): string[] {
+    return [
+      ...this.unused.map(b => `Unused binding: ${describeBinding(b)}`),
+      ...this.droppedWeakElements.map(b => `Weak set element is always dropped: ${describeBinding(b)}`),
+      ...this.unreachedAliases.map(
+        b => `Alias target ${b.target.toString()} is never reached: ${describeBinding(b)}`,
+      ),
+    ];
+  }
+
+  /**
+   * Strict check for unit tests and CI
+   * @throws UnusedBindingsError if any binding is unused
+   */
+  assertEmpty(): void {
+    if (!this.isEmpty()) {
+      throw new UnusedBindingsError(this);
+    }
+  }
+}
+
+/**
+ * Thrown by UnusedBindingsReport.assertEmpty() when a module has unused bindings
+ */
+export class UnusedBindingsError extends PlanningError {
+  constructor(public readonly report: UnusedBindingsReport) {
+    const warnings = report.warnings();
+    super(`Found ${warnings.length} unused binding(s):\n${warnings.map(w => `  - ${w}`).join('\n')}`);
+    this.name = 'UnusedBindingsError';
+  }
+}
+
+/**
+ * Finds bindings that no root ever reaches.
+ *
+ * A binding is used if the planner selects it for some plan step. analyze() checks a single
+ * activation; analyzeAll() checks every combination of the given axes (pruned like PlanVerifier)
+ * and only reports bindings that are unused under all of them.
+ *
+ * Example:
+ *   const report = new UnusedBindingsAnalyzer().analyzeAll(module, [DIKey.of(App)], [Env]);
+ *   report.warnings().forEach(w => console.warn(w));
+ *   report.assertEmpty(); // strict mode
+ */
+export class UnusedBindingsAnalyzer {
+  private readonly planner = new Planner();
+  private readonly verifier = new PlanVerifier();
+
+  /**
+   * Find the bindings not used when planning the roots under a single activation
+   * @throws PlanningError if the module cannot be planned
+   */
+  analyze(
+    module: ModuleDef,
+    roots: DIKey[],
+    activation: Activation = Activation.empty(),
+  ): UnusedBindingsReport {
+    return this.report(module, [this.planner.plan(module, roots, activation)]);
+  }
+
+  /**
+   * Find the bindings not used when planning the roots under any choice of the given axes
+   * @throws PlanVerificationError if the module cannot be planned under some activation
+   */
+  analyzeAll(module: ModuleDef, roots: DIKey[], axes: Axis[]): UnusedBindingsReport {
+    const verification = this.verifier.verify(module, roots, axes);
+    if (!verification.success) {
+      throw new PlanVerificationError(verification.failures);
+    }
+
+    const plans = verification.checked.map(activation => this.planner.plan(module, roots, activation));
+    return this.report(module, plans);
+  }
+
+  private report(module: ModuleDef, plans: Plan[]): UnusedBindingsReport {
+    const selected = new Set<AnyBinding>();
+    const plannedKeys = new Set<string>();
+
+    for (const plan of plans) {
+      for (const step of plan.getSteps()) {
+        plannedKeys.add(step.key.toMapKey());
+        for (const binding of Array.isArray(step.binding) ? step.binding : [step.binding]) {
+          selected.add(binding);
+        }
+      }
+    }
+
+    const unused: AnyBinding[] = [];
+    const droppedWeakElements: (SetBinding | WeakSetBinding)[] = [];
+    const unreachedAliases: AliasBinding[] = [];
+
+    for (const binding of module.getBindings()) {
+      if (selected.has(binding)) {
+        continue;
+      }
+      if (isWeakElement(binding) && plannedKeys.has(binding.key.toMapKey())) {
+        droppedWeakElements.push(binding);
+      } else if (binding.kind === BindingKind.Alias && !plannedKeys.has(binding.target.toMapKey())) {
+        unreachedAliases.push(binding);
+      } else {
+        unused.push(binding);
+      }
+    }
+
+    return new UnusedBindingsReport(unused, droppedWeakElements, unreachedAliases);
+  }
+}
+
+function isWeakElement(binding: AnyBinding): binding is SetBinding | WeakSetBinding {
+  return binding.kind === BindingKind.WeakSet ||
+    (binding.kind === BindingKind.Set && binding.weak);
+}
+
+function describeBinding(binding: AnyBinding): string {
+  const tags = binding.tags.describe();
+  const tagsStr = tags.length > 0 ? ` [${tags.join(', ')}]` : '';
+  const origin = binding.origin ? ` (defined at ${binding.origin.toString()})` : '';
+  const what = binding.kind === BindingKind.Set || binding.kind === BindingKind.WeakSet
+    ? `${binding.element.kind} element of ${binding.key.toString()}`
+    : `${binding.kind} binding for ${binding.key.toString()}`;
+  return `${what}${tagsStr}${origin}`;
+}
@@ -1,19 +1,18 @@
 import { DIKey, Callable } from '@/distage/model/DIKey';
-import { AnyBinding, Bindings } from '@/distage/model/Binding';
+import { AnyBinding, AssistedParam, BindingKind, BindingScope, Bindings } from '@/distage/model/Binding';
+import { BindingOrigin } from '@/distage/model/BindingOrigin';
 import { BindingTags, Axis, AxisPoint } from '@/distage/model/Activation';
 import { Functoid } from '@/distage/core/Functoid';
-import { getConstructorTypes } from '@/distage/model/Reflected';
+import { Lifecycle } from '@/distage/model/Lifecycle';
+import { DependencyType, FactoryImplementation, FactoryRuntimeTypes, InstanceTypes, dependencyKey } from '@/distage/model/Dependency';
 
 /**
- * Helper type to extract instance types from a tuple of constructor types.
- * Maps [typeof Database, typeof Config] -> [Database, Config]
+ * Declaration of an assisted factory: which constructor parameters are provided at runtime
  */
-type InstanceTypes<T extends readonly any[]> = T extends readonly [infer First, ...infer Rest]
-  ? [
-      First extends abstract new (...args: any[]) => infer R ? R : First,
-      ...InstanceTypes<Rest>
-    ]
-  : [];
+export interface AssistedFactorySpec {
+  /** Runtime parameters by name or by DIKey, in the order the factory function takes them */
+  runtime: AssistedParam[];
+}
 
 /**
  * Builder for specifying the source of a binding (like izumi-chibi-py's .using())
@@ -103,7 +102,7 @@ export class BindingFromBuilder<T> {
    *     }
    *   )
    */
-  func<const Args extends readonly (abstract new (...args: any[]) => any)[], R extends T>(
+  func<const Args extends readonly DependencyType[], R extends T>(
     types: Args,
     fn: (...params: InstanceTypes<Args>) => R | Promise<R>
   ): ModuleDef {
@@ -113,6 +112,48 @@ export class BindingFromBuilder<T> {
     });
   }
 
+  /**
+   * Bind to a resource managed by a Lifecycle.
+   * The resource is acquired by produceAsync() in plan order and released
+   * in reverse order when the resulting Locator is closed.
+   *
+   * Accepts a Lifecycle value, a Functoid producing a Lifecycle, or a
+   * type-safe factory function with explicit parameter types.
+   *
+   * Example:
+   *   module.make(Database).from().resource(
+   *     Lifecycle.make(() => connect(), (db) => db.disconnect())
+   *   )
+   *
+   *   // Lifecycle built from injected dependencies
+   *   module.make(Database).from().resource(
+   *     [Config],
+   *     (config) => Lifecycle.make(() => connect(config.url), (db) => db.disconnect())
+   *   )
+   */
+  resource(lifecycle: Lifecycle<T>): ModuleDef;
+  resource(functoid: Functoid<Lifecycle<T>>): ModuleDef;
+  resource<const Args extends readonly DependencyType[]>(
+    types: Args,
+    fn: (...params: InstanceTypes<Args>) => Lifecycle<T> | Promise<Lifecycle<T>>
+  ): ModuleDef;
+  resource(
+    lifecycleOrFunctoid: Lifecycle<T> | Functoid<Lifecycle<T>> | readonly any[],
+    fn?: (...params: any[]) => Lifecycle<T> | Promise<Lifecycle<T>>,
+  ): ModuleDef {
+    return this.bindingBuilder.finalize((key, tags) => {
+      let functoid: Functoid<Lifecycle<T>>;
+      if (lifecycleOrFunctoid instanceof Lifecycle) {
+        functoid = Functoid.constant(lifecycleOrFunctoid);
+      } else if (lifecycleOrFunctoid instanceof Functoid) {
+        functoid = lifecycleOrFunctoid;
+      } else {
+        functoid = Functoid.fromFunction(lifecycleOrFunctoid as any[], fn!);
+      }
+      return Bindings.resource(key, functoid, tags);
+    });
+  }
+
   /**
    * Create an alias to another binding
    * Can accept either a type with optional ID, or a DIKey directly
@@ -127,29 +168,101 @@ export class BindingFromBuilder<T> {
   }
 
   /**
-   * Create an assisted factory binding (for runtime parameters + DI)
+   * Create an assisted factory binding (for runtime parameters + DI).
+   * The Locator returns a function taking the runtime parameters, which creates a new
+   * instance with all other constructor parameters resolved by DI. Runtime parameters are
+   * matched by constructor parameter name or by the DIKey they are declared with.
+   * A plain array is a list of runtime parameters. Calling the function with more arguments
+   * than runtime parameters throws.
+   *
+   * Example:
+   *   @Reflected(String, Database)
+   *   class UserSession {
+   *     constructor(@Id('userId') userId: string, db: Database) {}
+   *   }
+   *
+   *   module.make(UserSession).from().assistedFactory({ runtime: ['userId'] })
+   *   module.make(UserSession).from().assistedFactory({ runtime: [DIKey.named(String, 'userId')] })
+   *
+   * @throws Error if a runtime parameter matches no constructor parameter, or is a name while the
+   *   parameter names can't be read reliably from the constructor's source (e.g. it is inherited)
    */
-  assistedFactory(assistedParams: string[] = []): ModuleDef {
+  assistedFactory(spec: AssistedFactorySpec | AssistedParam[] = []): ModuleDef {
+    const assistedParams = Array.isArray(spec) ? spec : spec.runtime;
     return this.bindingBuilder.finalize((key, tags) => {
       const implementation = this.bindingBuilder['type'] as new (...args: any[]) => T;
       const functoid = Functoid.fromConstructor(implementation);
 
-      // If we have explicit types from .withDeps(), use them
+      // If we have explicit types from .withDeps(), use them. Types from @Reflected are
+      // already applied by Functoid.fromConstructor(), together with the @Id decorators.
       if (this.constructorTypes && this.constructorTypes.length > 0) {
         functoid.withTypes(this.constructorTypes);
-      } else {
-        // Otherwise, try to auto-detect from @Injectable decorator
-        const injectableTypes = getConstructorTypes(implementation);
-        if (injectableTypes && injectableTypes.length > 0) {
-          functoid.withTypes(injectableTypes);
-        }
       }
 
       return Bindings.assistedFactory(key, functoid, assistedParams, tags);
     });
   }
+
+  /**
+   * Bind a factory type to an assisted factory of a class. The Locator returns a function of
+   * the factory type, creating a new instance with all constructor parameters but the runtime
+   * ones resolved by DI. Runtime parameters are given by type and matched, in order, with the
+   * constructor parameters declared with the same types (e.g. through @Reflected).
+   *
+   * Without runtime types, the runtime parameters are the constructor parameters that no binding
+   * (valid under the activation) or parent locator provides, found when planning. Calls with another
+   * number of arguments than these throw.
+   *
+   * The factory type is checked at compile time: its parameters must be the instance types of the
+   * runtime types, appear in the same order among the constructor parameters, and the class must
+   * create its result.
+   *
+   * Unlike assistedFactory(), the factory returns instances, not promises, when produced asynchronously.
+   *
+   * Example:
+   *   type SessionFactory = (userId: string) => UserSession;
+   *   const SessionFactory = Symbol('SessionFactory');
+   *
+   *   module.make<SessionFactory>(SessionFactory).from().factoryOf(UserSession, [String])
+   *   module.make<SessionFactory>(SessionFactory).from().factoryOf(UserSession)  // String is not bound
+   *   locator.get(DIKey.token<SessionFactory>(SessionFactory))('alice')
+   *
+   *   module.make<SessionFactory>(SessionFactory).from().factoryOf(UserSession, [Number])  // ✗ Compile error
+   */
+  factoryOf<C extends new (...args: any[]) => any>(implementation: C & FactoryImplementation<T, C>): ModuleDef;
+  factoryOf<C extends new (...args: any[]) => any, const Runtime extends readonly Callable[]>(
+    implementation: C,
+    runtime: Runtime & FactoryRuntimeTypes<T, C, Runtime>,
+  ): ModuleDef;
+  factoryOf(implementation: new (...args: any[]) => any, runtime?: readonly Callable[]): ModuleDef {
+    return this.bindingBuilder.finalize((key, tags) => {
+      const functoid = Functoid.fromConstructor(implementation);
+
+      // If we have explicit types from .withDeps(), use them
+      if (this.constructorTypes && this.constructorTypes.length > 0) {
+        functoid.withTypes(this.constructorTypes);
+      }
+
+      return Bindings.factoryOf(key, functoid, runtime, tags);
+    });
+  }
 }
 
+/**
+ * The alias targets accepted for a binding of type T: Targets if every type and DIKey among them
+ * is of a supertype of T, never otherwise. Symbol tokens carry no type and are always accepted.
+ * Maps PostgresDatabase, [typeof Database, DIKey<Database>] -> Targets and [typeof Unrelated] -> [never]
+ */
+export type AliasTargets<T, Targets extends readonly unknown[]> = {
+  [K in keyof Targets]: Targets[K] extends symbol
+    ? Targets[K]
+    : Targets[K] extends DIKey<infer S>
+      ? [T] extends [S] ? Targets[K] : never
+      : Targets[K] extends Callable<infer S>
+        ? [T] extends [S] ? Targets[K] : never
+        : never
+};
+
 /**
  * Builder for creating a single binding with fluent API
  */
@@ -157,6 +270,8 @@ export class BindingBuilder<T> {
   private currentId?: string;
   private currentTags: BindingTags = BindingTags.empty();
   private constructorTypes?: any[];
+  private aliasTargets: (Callable<any> | symbol | DIKey)[] = [];
+  private scope: BindingScope = 'singleton';
 
   constructor(
     private readonly type: Callable<T> | symbol,
@@ -198,6 +313,36 @@ export class BindingBuilder<T> {
     return this;
   }
 
+  /**
+   * Also expose this binding under other keys, e.g. its superclasses or interface tokens.
+   * Each target gets an alias binding to this binding, with the same tags.
+   * Types and tokens are bound with the same @Id as this binding; pass a DIKey to choose another one.
+   *
+   * Example:
+   *   module.make(PostgresDatabase).aliases(Database, DatabaseToken).from().type(PostgresDatabase)
+   *   // Database and DatabaseToken now resolve to the PostgresDatabase instance
+   */
+  aliases<const Targets extends readonly (Callable | symbol | DIKey)[]>(
+    ...targets: Targets & AliasTargets<T, Targets>
+  ): this {
+    this.aliasTargets.push(...targets);
+    return this;
+  }
+
+  /**
+   * Set the scope of this binding (default: 'singleton').
+   * A transient binding creates a new instance for every dependent and every Locator lookup.
+   * Only class, synchronous factory and alias bindings can be transient; aliases added
+   * with .aliases() get the same scope.
+   *
+   * Example:
+   *   module.make(UnitOfWork).scoped('transient').from().type(UnitOfWork)
+   */
+  scoped(scope: BindingScope): this {
+    this.scope = scope;
+    return this;
+  }
+
   /**
    * Start specifying where the binding comes from (izumi-chibi-py style)
    */
@@ -209,14 +354,18 @@ export class BindingBuilder<T> {
    * Get the DIKey for this binding
    */
   private getKey(): DIKey<T> {
-    if (typeof this.type === 'symbol') {
+    return this.keyFor(this.type);
+  }
+
+  private keyFor<K>(type: Callable<K> | symbol): DIKey<K> {
+    if (typeof type === 'symbol') {
       return this.currentId
-        ? DIKey.namedToken(this.type, this.currentId)
-        : DIKey.token(this.type);
+        ? DIKey.namedToken(type, this.currentId)
+        : DIKey.token(type);
     } else {
       return this.currentId
-        ? DIKey.named(this.type as Callable<T>, this.currentId)
-        : DIKey.of(this.type as Callable<T>);
+        ? DIKey.named(type, this.currentId)
+        : DIKey.of(type);
     }
   }
 
@@ -225,13 +374,42 @@ export class BindingBuilder<T> {
    * @internal
    */
   finalize(createBinding: (key: DIKey<T>, tags: BindingTags) => AnyBinding): ModuleDef {
+    const origin = BindingOrigin.capture(this.module.name);
     const key = this.getKey();
     const binding = createBinding(key, this.currentTags);
-    this.module.addBinding(binding);
+    const scope = this.scope === 'transient' ? { scope: this.scope } : {};
+    if (this.scope === 'transient') {
+      assertTransientSupported(binding);
+    }
+    this.module.addBinding({ ...binding, origin, ...scope });
+
+    for (const target of this.aliasTargets) {
+      const aliasKey = target instanceof DIKey ? target : this.keyFor(target);
+      this.module.addBinding({ ...Bindings.alias(aliasKey, key, this.currentTags), origin, ...scope });
+    }
     return this.module;
   }
 }
 
+/**
+ * Check that a binding can create a new instance synchronously whenever one is needed
+ */
+function assertTransientSupported(binding: AnyBinding): void {
+  const isAsync = (binding.kind === BindingKind.Factory || binding.kind === BindingKind.Class) &&
+    binding.factory.isAsyncFunctoid();
+  const supported = binding.kind === BindingKind.Class ||
+    binding.kind === BindingKind.Factory ||
+    binding.kind === BindingKind.Alias;
+
+  if (isAsync || !supported) {
+    const kind = isAsync ? 'async factories' : `${binding.kind} bindings`;
+    throw new Error(
+      `Cannot make ${binding.key.toString()} transient: ${kind} are not supported. ` +
+      `Only class, synchronous factory and alias bindings can be transient.`
+    );
+  }
+}
+
 /**
  * Builder for specifying the source of a set element binding
  */
@@ -300,7 +478,7 @@ export class SetBindingFromBuilder<T> {
    *     (db) => new AuthPlugin(db)
    *   )
    */
-  func<const Args extends readonly (abstract new (...args: any[]) => any)[], R extends T>(
+  func<const Args extends readonly DependencyType[], R extends T>(
     types: Args,
     fn: (...params: InstanceTypes<Args>) => R
   ): ModuleDef {
@@ -400,12 +578,85 @@ export class SetBindingBuilder<T> {
       weak: boolean,
     ) => AnyBinding
   ): ModuleDef {
+    const origin = BindingOrigin.capture(this.module.name);
     const setKey = this.getSetKey();
     const elementKey = this.getElementKey();
     const binding = createBinding(setKey, elementKey, this.currentTags, this.weak);
-    this.module.addBinding(binding);
+    this.module.addBinding({ ...binding, origin });
+    return this.module;
+  }
+}
+
+/**
+ * Builder for a modifier of the binding of a type, created by ModuleDef.modify()
+ */
+export class ModifierBuilder<T> {
+  private currentId?: string;
+  private currentTags: BindingTags = BindingTags.empty();
+
+  constructor(
+    private readonly type: Callable<T> | symbol,
+    private readonly module: ModuleDef,
+  ) {}
+
+  /**
+   * Modify the binding with this named identifier
+   */
+  named(id: string): this {
+    this.currentId = id;
+    return this;
+  }
+
+  /**
+   * Only apply the modifier when the axis point is active
+   */
+  tagged(axis: Axis, choice: string): this;
+  tagged(point: AxisPoint): this;
+  tagged(axisOrPoint: Axis | AxisPoint, choice?: string): this {
+    if (axisOrPoint instanceof AxisPoint) {
+      this.currentTags = this.currentTags.withTag(axisOrPoint.axis, axisOrPoint.choice);
+    } else if (choice !== undefined) {
+      this.currentTags = this.currentTags.withTag(axisOrPoint, choice);
+    } else {
+      throw new Error('Either provide an AxisPoint or both axis and choice');
+    }
+    return this;
+  }
+
+  /**
+   * Modify the value with a function of it
+   *
+   * Example:
+   *   module.modify(Config).by(config => ({ ...config, debug: true }))
+   */
+  by(fn: (value: T) => T | Promise<T>): ModuleDef {
+    return this.with([], fn);
+  }
+
+  /**
+   * Modify the value with a function of it and of other dependencies, with explicit parameter types
+   *
+   * Example:
+   *   module.modify(UserService).with([Metrics], (service, metrics) => new MeteredUserService(service, metrics))
+   */
+  with<const Args extends readonly DependencyType[]>(
+    types: Args,
+    fn: (value: T, ...params: InstanceTypes<Args>) => T | Promise<T>,
+  ): ModuleDef {
+    const origin = BindingOrigin.capture(this.module.name);
+    const key = this.getKey();
+    const functoid = Functoid.fromFunctionUnsafe(fn as (...args: any[]) => T)
+      .withDependencies([key, ...types.map(type => dependencyKey(type))]);
+    this.module.addBinding({ ...Bindings.modifier(key, functoid, this.currentTags), origin });
     return this.module;
   }
+
+  private getKey(): DIKey<T> {
+    if (typeof this.type === 'symbol') {
+      return this.currentId ? DIKey.namedToken(this.type, this.currentId) : DIKey.token(this.type);
+    }
+    return this.currentId ? DIKey.named(this.type, this.currentId) : DIKey.of(this.type);
+  }
 }
 
 /**
@@ -420,15 +671,25 @@ export class SetBindingBuilder<T> {
  *     .many(Plugin).from().type(AuthPlugin)
  *     .many(Plugin).from().type(LoggingPlugin);
  *
+ * Every binding records its origin (see BindingOrigin): the file and line of the
+ * DSL call that created it, and the module name if one was given to the constructor,
+ * e.g. new ModuleDef('database'). Origins are shown in planning errors and plan dumps.
+ *
  * The .from() method returns a builder that supports:
  *   - .type(Class) - bind to a class (constructor injection)
  *   - .value(instance) - bind to a specific instance
  *   - .factory(fn) - bind to a factory function
  *   - .alias(TargetClass) - create an alias to another binding
+ *   - .resource(lifecycle) - bind to a Lifecycle-managed resource
  */
 export class ModuleDef {
   private bindings: AnyBinding[] = [];
 
+  /**
+   * @param name Optional module name, recorded in the origin of every binding of this module
+   */
+  constructor(public readonly name?: string) {}
+
   /**
    * Start defining a binding for a type or symbol token
    */
@@ -443,6 +704,20 @@ export class ModuleDef {
     return new SetBindingBuilder(elementType, this);
   }
 
+  /**
+   * Start defining a modifier for the binding of a type or symbol token.
+   * Modifiers take the value produced by whatever binding is selected for the key and return
+   * the value its dependents get, e.g. to wrap it in a tracing or caching decorator.
+   * They are applied in the order they were defined, across appended and overriding modules,
+   * and each one is a separate plan step.
+   *
+   * Example:
+   *   module.modify(UserService).with([Metrics], (service, metrics) => new MeteredUserService(service, metrics))
+   */
+  modify<T>(type: Callable<T> | symbol): ModifierBuilder<T> {
+    return new ModifierBuilder(type, this);
+  }
+
   /**
    * Add a binding directly (internal use)
    */
@@ -468,7 +743,8 @@ export class ModuleDef {
 
   /**
    * Override bindings in this module with those from another module.
-   * Later bindings take precedence.
+   * Later bindings take precedence. Modifiers are not overridden: the modifiers of
+   * both modules apply, those of this module first.
    */
   overriddenBy(other: ModuleDef): ModuleDef {
     const merged = new ModuleDef();
@@ -476,7 +752,7 @@ export class ModuleDef {
     // Group bindings by key
     const bindingMap = new Map<string, AnyBinding[]>();
 
-    for (const binding of this.bindings) {
+    for (const binding of this.bindings.filter(b => b.kind !== BindingKind.Modifier)) {
       const key = binding.key.toMapKey();
       if (!bindingMap.has(key)) {
         bindingMap.set(key, []);
@@ -484,7 +760,7 @@ export class ModuleDef {
       bindingMap.get(key)!.push(binding);
     }
 
-    for (const binding of other.bindings) {
+    for (const binding of other.bindings.filter(b => b.kind !== BindingKind.Modifier)) {
       const key = binding.key.toMapKey();
       if (!bindingMap.has(key)) {
         bindingMap.set(key, []);
@@ -497,6 +773,8 @@ export class ModuleDef {
       merged.bindings.push(bindings[bindings.length - 1]);
     }
 
+    merged.bindings.push(...[...this.bindings, ...other.bindings].filter(b => b.kind === BindingKind.Modifier));
+
     return merged;
   }
 
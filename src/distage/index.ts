@@ -5,9 +5,11 @@
 
 // Core
 export { Injector } from '@/distage/core/Injector';
-export type { InjectorOptions } from '@/distage/core/Injector';
+export type { InjectorOptions, RootMode } from '@/distage/core/Injector';
 export { Planner } from '@/distage/core/Planner';
-export { Producer } from '@/distage/core/Producer';
+export type { CycleMode } from '@/distage/core/Planner';
+export { Producer, ProvisioningError } from '@/distage/core/Producer';
+export type { ProvisioningFailure } from '@/distage/core/Producer';
 export type { Locator } from '@/distage/core/Locator';
 export { LocatorImpl } from '@/distage/core/Locator';
 export { Subcontext, createSubcontext } from '@/distage/core/Subcontext';
@@ -17,23 +19,54 @@ export {
   MissingDependencyError,
   CircularDependencyError,
   ConflictingBindingsError,
+  AxisConflictError,
+  PlanningFailure,
 } from '@/distage/core/Plan';
-export type { PlanStep } from '@/distage/core/Plan';
+export type { PlanStep, PlanningResult, PathConstraint } from '@/distage/core/Plan';
+export { PlanRenderer } from '@/distage/core/PlanRenderer';
+export { PlanDiff } from '@/distage/core/PlanDiff';
+export type { PlanStepChange, PlanChangeReason } from '@/distage/core/PlanDiff';
+export { PlanVerifier, PlanVerificationError } from '@/distage/core/PlanVerifier';
+export type { PlanVerificationReport, ActivationFailure } from '@/distage/core/PlanVerifier';
+export { UnusedBindingsAnalyzer, UnusedBindingsReport, UnusedBindingsError } from '@/distage/core/UnusedBindings';
+export { PlanDescription, PlanSerializer, PLAN_JSON_VERSION } from '@/distage/core/PlanJSON';
+export type {
+  PlanJSON,
+  PlanStepJSON,
+  BindingJSON,
+  BindingOriginJSON,
+  DIKeyJSON,
+  TypeTagJSON,
+} from '@/distage/core/PlanJSON';
 export { Functoid } from '@/distage/core/Functoid';
 export type { ParameterInfo } from '@/distage/core/Functoid';
 
 // DSL
-export { ModuleDef, BindingBuilder, SetBindingBuilder } from '@/distage/dsl/ModuleDef';
+export { ModuleDef, BindingBuilder, SetBindingBuilder, ModifierBuilder } from '@/distage/dsl/ModuleDef';
+export type { AssistedFactorySpec } from '@/distage/dsl/ModuleDef';
 
 // Model
 export { DIKey, ID_METADATA_KEY, PARAM_IDS_METADATA_KEY, TypeTag } from '@/distage/model/DIKey';
-export type { Callable, TypeTag as TypeTagType, PrimitiveType } from '@/distage/model/DIKey';
+export type { Callable, TypeTag as TypeTagType, PrimitiveType, DependencyModifier } from '@/distage/model/DIKey';
+export { Optional, isOptionalType, Lazy, isLazyType } from '@/distage/model/Dependency';
+export type {
+  OptionalType,
+  LazyType,
+  DependencyType,
+  InstanceTypes,
+  LinesUpWith,
+  FactoryRuntimeTypes,
+  FactoryImplementation,
+} from '@/distage/model/Dependency';
 export { Id, getParameterId, getAllParameterIds } from '@/distage/model/Id';
 export { Reflected, ApplyReflection, getConstructorTypes } from '@/distage/model/Reflected';
 export { Axis, AxisPoint, Activation, BindingTags } from '@/distage/model/Activation';
 export { BindingKind, Bindings } from '@/distage/model/Binding';
+export { BindingOrigin } from '@/distage/model/BindingOrigin';
 export type {
   Binding,
+  BindingScope,
+  AssistedParam,
   InstanceBinding,
   ClassBinding,
   FactoryBinding,
@@ -41,6 +74,8 @@ export type {
   SetBinding,
   WeakSetBinding,
   AssistedFactoryBinding,
+  ResourceBinding,
+  ModifierBinding,
   AnyBinding,
 } from '@/distage/model/Binding';
 export { Lifecycle, LifecycleManager, AggregateLifecycleError } from '@/distage/model/Lifecycle';
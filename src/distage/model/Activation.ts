@@ -186,10 +186,14 @@ export class BindingTags {
     return new Map(this.tags);
   }
 
+  /**
+   * Describe each tag as Axis:choice, e.g. ['Env:Prod', 'Db:Postgres']
+   */
+  describe(): string[] {
+    return Array.from(this.tags, ([axis, choice]) => new AxisPoint(axis, choice).toString());
+  }
+
   toString(): string {
-    const tagStrs = Array.from(this.tags.entries())
-      .map(([axis, choice]) => `${axis.name}:${choice}`)
-      .join(', ');
-    return `Tags(${tagStrs || 'empty'})`;
+    return `Tags(${this.describe().join(', ') || 'empty'})`;
   }
 }
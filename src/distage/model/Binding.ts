@@ -1,6 +1,15 @@
-import { DIKey } from '@/distage/model/DIKey';
+import { DIKey, Callable } from '@/distage/model/DIKey';
 import { BindingTags } from '@/distage/model/Activation';
 import { Functoid } from '@/distage/core/Functoid';
+import { Lifecycle } from '@/distage/model/Lifecycle';
+import { BindingOrigin } from '@/distage/model/BindingOrigin';
+
+/**
+ * How many instances a binding produces:
+ * - 'singleton': one instance per Locator, shared by all dependents
+ * - 'transient': a new instance for every dependent and every lookup
+ */
+export type BindingScope = 'singleton' | 'transient';
 
 /**
  * Base interface for all binding types
@@ -9,6 +18,10 @@ export interface Binding<T = any> {
   readonly key: DIKey<T>;
   readonly tags: BindingTags;
   readonly kind: BindingKind;
+  /** Where the binding was defined (set by the ModuleDef DSL) */
+  readonly origin?: BindingOrigin;
+  /** Scope of the binding (default: 'singleton') */
+  readonly scope?: BindingScope;
 }
 
 /**
@@ -22,6 +35,8 @@ export enum BindingKind {
   Set = 'Set',
   WeakSet = 'WeakSet',
   AssistedFactory = 'AssistedFactory',
+  Resource = 'Resource',
+  Modifier = 'Modifier',
 }
 
 /**
@@ -76,6 +91,12 @@ export interface WeakSetBinding<T = any> extends Binding<Set<T>> {
   element: ClassBinding<T> | InstanceBinding<T> | FactoryBinding<T>;
 }
 
+/**
+ * A parameter of an assisted factory provided at runtime: the name of the constructor
+ * parameter, or the DIKey the parameter is declared with (e.g. through @Reflected and @Id)
+ */
+export type AssistedParam = string | DIKey;
+
 /**
  * Binding for assisted injection (factory bindings).
  * These allow creating multiple instances with runtime parameters
@@ -84,7 +105,44 @@ export interface WeakSetBinding<T = any> extends Binding<Set<T>> {
 export interface AssistedFactoryBinding<T = any> extends Binding<T> {
   kind: BindingKind.AssistedFactory;
   factory: Functoid<T>;
-  assistedParams: string[]; // Names of parameters to be provided at runtime
+  /** Parameters provided at runtime, as declared: parameter names or DIKey descriptions */
+  assistedParams: string[];
+  /** Index of the factory parameter receiving each runtime argument */
+  runtimeParams: number[];
+  /**
+   * Bound with factoryOf() to a factory type: calls return instances as the type declares,
+   * also when produced asynchronously (other assisted factories then return promises)
+   */
+  typed?: boolean;
+  /**
+   * Bound with factoryOf() without runtime types: the planner takes the factory parameters
+   * that no binding provides as runtime parameters, runtimeParams is empty
+   */
+  inferRuntimeParams?: boolean;
+}
+
+/**
+ * Binding for a resource managed by a Lifecycle.
+ * The factory produces the Lifecycle, the Producer acquires it and
+ * the owning Locator releases it on close().
+ */
+export interface ResourceBinding<T = any> extends Binding<T> {
+  kind: BindingKind.Resource;
+  factory: Functoid<Lifecycle<T>>;
+}
+
+/**
+ * Binding that modifies the value of its key, whatever binding produces it.
+ * A key may have several modifiers, applied in the order they were defined.
+ */
+export interface ModifierBinding<T = any> extends Binding<T> {
+  kind: BindingKind.Modifier;
+  /**
+   * Takes the value of the key, then the modifier's own dependencies, and returns the new value.
+   * Its first dependency is the key itself, which the planner replaces with the step producing
+   * the value to modify.
+   */
+  factory: Functoid<T>;
 }
 
 /**
@@ -97,7 +155,9 @@ export type AnyBinding =
   | AliasBinding
   | SetBinding
   | WeakSetBinding
-  | AssistedFactoryBinding;
+  | AssistedFactoryBinding
+  | ResourceBinding
+  | ModifierBinding;
 
 /**
  * Helper functions to create bindings
@@ -183,18 +243,151 @@ export const Bindings = {
     };
   },
 
+  /**
+   * @throws Error if an assisted parameter matches no parameter of the factory, or the same one as another
+   */
   assistedFactory<T>(
     key: DIKey<T>,
     factory: Functoid<T>,
-    assistedParams: string[] = [],
+    assistedParams: AssistedParam[] = [],
+    tags: BindingTags = BindingTags.empty(),
+  ): AssistedFactoryBinding<T> {
+    return {
+      key,
+      tags,
+      kind: BindingKind.AssistedFactory,
+      factory,
+      assistedParams: assistedParams.map(param => typeof param === 'string' ? param : param.toString()),
+      runtimeParams: matchAssistedParams(key, factory, assistedParams),
+    };
+  },
+
+  /**
+   * Typed assisted factory whose runtime parameters are given by type. Each type is matched with the
+   * next factory parameter declared with it, so runtime parameters keep the factory's order.
+   * Without runtime types, the planner infers them (see AssistedFactoryBinding.inferRuntimeParams).
+   * @throws Error if a runtime type matches no factory parameter after the previous ones
+   */
+  factoryOf<T>(
+    key: DIKey<T>,
+    factory: Functoid<any>,
+    runtimeTypes?: readonly Callable[],
     tags: BindingTags = BindingTags.empty(),
   ): AssistedFactoryBinding<T> {
+    const runtimeParams = runtimeTypes ? matchRuntimeTypes(key, factory, runtimeTypes) : [];
+    const dependencies = factory.getDependencies();
     return {
       key,
       tags,
       kind: BindingKind.AssistedFactory,
       factory,
-      assistedParams,
+      assistedParams: runtimeParams.map(index => dependencies[index].toString()),
+      runtimeParams,
+      typed: true,
+      inferRuntimeParams: runtimeTypes === undefined,
+    };
+  },
+
+  resource<T>(
+    key: DIKey<T>,
+    factory: Functoid<Lifecycle<T>>,
+    tags: BindingTags = BindingTags.empty(),
+  ): ResourceBinding<T> {
+    return {
+      key,
+      tags,
+      kind: BindingKind.Resource,
+      factory,
+    };
+  },
+
+  modifier<T>(
+    key: DIKey<T>,
+    factory: Functoid<T>,
+    tags: BindingTags = BindingTags.empty(),
+  ): ModifierBinding<T> {
+    return {
+      key,
+      tags,
+      kind: BindingKind.Modifier,
+      factory,
     };
   },
 };
+
+/**
+ * Get the dependencies of an assisted factory that are resolved by DI: all but the runtime parameters,
+ * those of the binding unless inferred ones are given
+ * @internal
+ */
+export function assistedDependencies(
+  binding: AssistedFactoryBinding,
+  runtimeParams: readonly number[] = binding.runtimeParams,
+): DIKey[] {
+  return binding.factory.getDependencies().filter((_, index) => !runtimeParams.includes(index));
+}
+
+/**
+ * Find the factory parameter each assisted parameter refers to, by name or by dependency key.
+ * Names are only matched if one was read from the source for each dependency of the factory.
+ */
+function matchAssistedParams(key: DIKey, factory: Functoid<any>, params: AssistedParam[]): number[] {
+  const names = factory.getParameterNames();
+  const dependencies = factory.getDependencies();
+  const matched: number[] = [];
+
+  for (const param of params) {
+    if (typeof param === 'string' && dependencies.length > 0 && names.length !== dependencies.length) {
+      throw new Error(
+        `Cannot match assisted parameter '${param}' of ${key.toString()} by name: ${names.length} parameter name(s) ` +
+        `were read from the source of its factory for ${dependencies.length} dependencies (e.g. the code is minified ` +
+        `or the constructor is inherited), refer to the parameter by DIKey instead`
+      );
+    }
+
+    const index = typeof param === 'string'
+      ? names.indexOf(param)
+      : dependencies.findIndex(dep => dep.equals(param));
+
+    if (index === -1) {
+      const candidates = typeof param === 'string'
+        ? `parameters: ${names.join(', ') || 'none'}`
+        : `dependencies: ${dependencies.map(dep => dep.toString()).join(', ') || 'none'}`;
+      throw new Error(
+        `Assisted parameter ${typeof param === 'string' ? `'${param}'` : param.toString()} of ${key.toString()} ` +
+        `does not match any parameter of its factory (${candidates})`
+      );
+    }
+    if (matched.includes(index)) {
+      throw new Error(`Assisted parameters of ${key.toString()} refer to the same parameter twice: ${names[index] ?? index}`);
+    }
+    matched.push(index);
+  }
+
+  return matched;
+}
+
+/**
+ * Find the factory parameter each runtime type refers to: the first parameter of that type
+ * after the one matched by the previous runtime type
+ */
+function matchRuntimeTypes(key: DIKey, factory: Functoid<any>, types: readonly Callable[]): number[] {
+  const dependencies = factory.getDependencies();
+  const matched: number[] = [];
+
+  for (const type of types) {
+    const from = matched.length > 0 ? matched[matched.length - 1] + 1 : 0;
+    const index = dependencies.findIndex((dep, i) => i >= from && dep.getCallable() === type);
+
+    if (index === -1) {
+      throw new Error(
+        `Runtime parameter ${type.name} of ${key.toString()} does not match any parameter of its factory ` +
+        `after the previous runtime parameters (dependencies: ` +
+        `${dependencies.map(dep => dep.toString()).join(', ') || 'none'})`
+      );
+    }
+    matched.push(index);
+  }
+
+  return matched;
+}
@@ -0,0 +1,82 @@
+/**
+ * Where a binding was defined: the source location of the ModuleDef DSL call
+ * that created it, and the name of the module it was added to (if the module was named).
+ *
+ * Example:
+ *   const module = new ModuleDef('database')
+ *     .make(Database).from().type(PostgresDatabase);
+ *
+ *   module.getBindings()[0].origin?.toString()
+ *   // => '/app/src/modules/database.ts:2:5 in module "database"'
+ */
+export class BindingOrigin {
+  constructor(
+    public readonly file?: string,
+    public readonly line?: number,
+    public readonly column?: number,
+    public readonly module?: string,
+  ) {}
+
+  /**
+   * Capture the origin of a binding from the current call stack.
+   *
+   * Must be called directly from the DSL method that creates the binding:
+   * frames from this file and from the caller's file are skipped, and the first
+   * remaining frame is taken as the location of the user's binding definition.
+   */
+  static capture(module?: string): BindingOrigin {
+    const frames = (new Error().stack ?? '')
+      .split('\n')
+      .slice(1)
+      .map(parseStackFrame)
+      .filter((frame): frame is StackFrame => frame !== undefined);
+
+    const internalFiles = new Set(frames.slice(0, 2).map(frame => frame.file));
+    const frame = frames.find(f => !internalFiles.has(f.file) && !f.file.startsWith('node:'));
+
+    return frame
+      ? new BindingOrigin(frame.file, frame.line, frame.column, module)
+      : new BindingOrigin(undefined, undefined, undefined, module);
+  }
+
+  /**
+   * Get the source location as file:line:column, if known
+   */
+  location(): string | undefined {
+    if (!this.file) {
+      return undefined;
+    }
+    return this.line !== undefined
+      ? `${this.file}:${this.line}${this.column !== undefined ? `:${this.column}` : ''}`
+      : this.file;
+  }
+
+  toString(): string {
+    const location = this.location();
+    if (this.module && location) {
+      return `${location} in module "${this.module}"`;
+    }
+    if (this.module) {
+      return `module "${this.module}"`;
+    }
+    return location ?? 'unknown location';
+  }
+}
+
+interface StackFrame {
+  file: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Parse a V8 stack frame line such as
+ * "    at fn (/path/file.ts:10:5)" or "    at /path/file.ts:10:5"
+ */
+function parseStackFrame(line: string): StackFrame | undefined {
+  const match = /\(?([^\s()]+):(\d+):(\d+)\)?\s*$/.exec(line.trim());
+  if (!match) {
+    return undefined;
+  }
+  return { file: match[1], line: Number(match[2]), column: Number(match[3]) };
+}
@@ -32,13 +32,15 @@ export type PrimitiveType =
  * - PrimitiveTag: A JavaScript primitive type (String, Number, Boolean, Symbol, BigInt)
  * - TokenTag: A Symbol instance used to represent an interface
  * - SetTag: A set of elements of a given type
+ * - ModifiedTag: The value of a type before some of its modifiers are applied (see ModuleDef.modify())
  */
 export type TypeTag<T = any> =
   | { kind: 'tagged'; value: Tagged<T> }
   | { kind: 'callable'; value: Callable<T> }
   | { kind: 'primitive'; value: PrimitiveType; name: string }
   | { kind: 'token'; value: symbol; description: string }
-  | { kind: 'set'; elementTag: TypeTag<any> };
+  | { kind: 'set'; elementTag: TypeTag<any> }
+  | { kind: 'modified'; targetTag: TypeTag<any>; applied: number };
 
 /**
  * Helper functions to create TypeTags
@@ -112,6 +114,29 @@ export const TypeTag = {
         return `token:${tag.description}`;
       case 'set':
         return `Set<${TypeTag.toString(tag.elementTag)}>`;
+      case 'modified':
+        return `Modified<${TypeTag.toString(tag.targetTag)}, ${tag.applied}>`;
+    }
+  },
+
+  /**
+   * Get a string identifying a TypeTag by reference.
+   * Unlike toString(), distinct classes, functions and tokens with the same name get distinct ids.
+   */
+  toIdentity(tag: TypeTag): string {
+    switch (tag.kind) {
+      case 'tagged':
+        return `tagged#${identityOf(tag.value)}`;
+      case 'callable':
+        return `f#${identityOf(tag.value)}`;
+      case 'primitive':
+        return `p:${tag.name}`;
+      case 'token':
+        return `token#${identityOf(tag.value)}`;
+      case 'set':
+        return `Set<${TypeTag.toIdentity(tag.elementTag)}>`;
+      case 'modified':
+        return `Modified<${TypeTag.toIdentity(tag.targetTag)}, ${tag.applied}>`;
     }
   },
 
@@ -121,11 +146,60 @@ export const TypeTag = {
   set<T>(elementTag: TypeTag<T>): TypeTag<Set<T>> {
     return { kind: 'set', elementTag };
   },
+
+  /**
+   * Create a TypeTag for the value of a type with only its first `applied` modifiers applied
+   */
+  modified<T>(targetTag: TypeTag<T>, applied: number): TypeTag<T> {
+    return { kind: 'modified', targetTag, applied };
+  },
 };
 
+/**
+ * Registry of unique ids for the values types are identified by.
+ * Objects and functions are held weakly; symbols can't be WeakMap keys, so they are held
+ * in a regular Map, which is fine for tokens, as they are usually module-level constants.
+ * Other values (e.g. strings cast to a type) are identified by their value.
+ */
+const objectIdentities = new WeakMap<object, number>();
+const symbolIdentities = new Map<symbol, number>();
+let nextIdentity = 0;
+
+function identityOf(value: unknown): string {
+  if (typeof value === 'symbol') {
+    let id = symbolIdentities.get(value);
+    if (id === undefined) {
+      id = nextIdentity++;
+      symbolIdentities.set(value, id);
+    }
+    return String(id);
+  }
+
+  if ((typeof value === 'object' && value !== null) || typeof value === 'function') {
+    let id = objectIdentities.get(value);
+    if (id === undefined) {
+      id = nextIdentity++;
+      objectIdentities.set(value, id);
+    }
+    return String(id);
+  }
+
+  return `${typeof value}:${String(value)}`;
+}
+
+/**
+ * How a dependency is requested, on top of which key it refers to:
+ * - 'optional': resolves to undefined when there is no binding for the key
+ * - 'lazy': resolves to a function returning the instance, usable once production is complete
+ */
+export type DependencyModifier = 'optional' | 'lazy';
+
 /**
  * Unique identifier for a dependency in the dependency injection graph.
  * Can identify types by constructor, named bindings using @Id, or set bindings.
+ *
+ * A key used as a dependency may carry a modifier (see DependencyModifier).
+ * Modifiers describe the request, not the binding, so they are ignored by equals() and toMapKey().
  */
 export class DIKey<T = any> {
   private readonly _brand!: T; // Brand for type safety
@@ -133,8 +207,44 @@ export class DIKey<T = any> {
   constructor(
     public readonly type: TypeTag<T>,
     public readonly id?: string,
+    public readonly modifier?: DependencyModifier,
   ) {}
 
+  /**
+   * Create an optional dependency key, resolved to undefined when nothing is bound to it
+   *
+   * Example:
+   *   new Functoid((metrics) => new Service(metrics))
+   *     .withDependencies([DIKey.optional(Metrics)])
+   *
+   * @throws Error if the key is lazy: a dependency can't be both lazy and optional
+   */
+  static optional<T>(typeOrKey: Callable<T> | DIKey<T>): DIKey<T | undefined> {
+    const key = typeOrKey instanceof DIKey ? typeOrKey : DIKey.of(typeOrKey);
+    if (key.isLazy()) {
+      throw new Error(`Cannot make the lazy dependency ${key.toString()} optional: a dependency is either lazy or optional`);
+    }
+    return new DIKey(key.type, key.id, 'optional');
+  }
+
+  /**
+   * Create a lazy dependency key, resolved to a function returning the instance.
+   * Lazy dependencies don't need to be produced first, so they can break dependency cycles.
+   *
+   * Example:
+   *   new Functoid((handlers) => new EventBus(handlers))
+   *     .withDependencies([DIKey.lazy(HandlerRegistry)])
+   *
+   * @throws Error if the key is optional: a dependency can't be both lazy and optional
+   */
+  static lazy<T>(typeOrKey: Callable<T> | DIKey<T>): DIKey<() => T> {
+    const key = typeOrKey instanceof DIKey ? typeOrKey : DIKey.of(typeOrKey);
+    if (key.isOptional()) {
+      throw new Error(`Cannot make the optional dependency ${key.toString()} lazy: a dependency is either lazy or optional`);
+    }
+    return new DIKey<any>(key.type, key.id, 'lazy');
+  }
+
   /**
    * Create a DIKey for a type
    */
@@ -195,6 +305,15 @@ export class DIKey<T = any> {
     return new DIKey(setTag, id) as any;
   }
 
+  /**
+   * Create a DIKey for the value of a key with only its first `applied` modifiers applied.
+   * The planner produces a modified key in steps, one for the binding and one per modifier;
+   * the steps before the last one are planned under these keys.
+   */
+  static modified<T>(key: DIKey<T>, applied: number): DIKey<T> {
+    return new DIKey(TypeTag.modified(key.type, applied), key.id);
+  }
+
   /**
    * Get the raw callable from this key (for callable types)
    * Returns undefined for primitive types
@@ -203,6 +322,34 @@ export class DIKey<T = any> {
     return this.type.kind === 'callable' ? this.type.value : undefined;
   }
 
+  /**
+   * Check if this key is an optional dependency
+   */
+  isOptional(): boolean {
+    return this.modifier === 'optional';
+  }
+
+  /**
+   * Check if this key is a lazy dependency
+   */
+  isLazy(): boolean {
+    return this.modifier === 'lazy';
+  }
+
+  /**
+   * Check if this key is the value of a key before some of its modifiers are applied (see DIKey.modified())
+   */
+  isModified(): boolean {
+    return this.type.kind === 'modified';
+  }
+
+  /**
+   * Get the key without its modifier, i.e. the key of the binding it refers to
+   */
+  withoutModifier(): DIKey<T> {
+    return this.modifier === undefined ? this : new DIKey(this.type, this.id);
+  }
+
   /**
    * Check if this key matches another key
    */
@@ -230,6 +377,9 @@ export class DIKey<T = any> {
         return a.value === (b as typeof a).value;
       case 'set':
         return this.typeTagEquals(a.elementTag, (b as typeof a).elementTag);
+      case 'modified':
+        return a.applied === (b as typeof a).applied &&
+          this.typeTagEquals(a.targetTag, (b as typeof a).targetTag);
     }
 
     throw new Error('Unknown tag type');
@@ -245,11 +395,13 @@ export class DIKey<T = any> {
   }
 
   /**
-   * Get a hashable key for use in Maps
+   * Get a hashable key for use in Maps.
+   * Keys are equal if and only if equals() holds, even for distinct types with the same name;
+   * use toString() for a readable name.
    */
   toMapKey(): string {
-    const typeName = TypeTag.toString(this.type);
-    return `${typeName}|${this.id || ''}`;
+    const typeIdentity = TypeTag.toIdentity(this.type);
+    return this.id === undefined ? typeIdentity : `${typeIdentity}|${this.id}`;
   }
 }
 
@@ -0,0 +1,138 @@
+import { DIKey, Callable } from '@/distage/model/DIKey';
+
+const OPTIONAL_MARKER: unique symbol = Symbol('distage:optional');
+const LAZY_MARKER: unique symbol = Symbol('distage:lazy');
+
+/**
+ * Marker for an optional dependency in a list of parameter types, created by Optional()
+ */
+export interface OptionalType<T> {
+  readonly [OPTIONAL_MARKER]: true;
+  readonly type: Callable<T>;
+}
+
+/**
+ * Mark a parameter type as optional in @Reflected, .func() or Functoid.fromFunction().
+ * The parameter receives undefined when nothing is bound to the type.
+ *
+ * Example:
+ *   @Reflected(Database, Optional(Metrics))
+ *   class UserService {
+ *     constructor(db: Database, metrics: Metrics | undefined) {}
+ *   }
+ */
+export function Optional<C extends abstract new (...args: any[]) => any>(type: C): OptionalType<InstanceType<C>> {
+  return { [OPTIONAL_MARKER]: true, type };
+}
+
+/**
+ * Check if a parameter type is an Optional() marker
+ */
+export function isOptionalType(value: unknown): value is OptionalType<unknown> {
+  return typeof value === 'object' && value !== null && OPTIONAL_MARKER in value;
+}
+
+/**
+ * Marker for a lazy dependency in a list of parameter types, created by Lazy()
+ */
+export interface LazyType<T> {
+  readonly [LAZY_MARKER]: true;
+  readonly type: Callable<T>;
+}
+
+/**
+ * Mark a parameter type as lazy in @Reflected, .func() or Functoid.fromFunction().
+ * The parameter receives a function returning the instance, which may only be called
+ * once production is complete. Lazy dependencies can break dependency cycles.
+ *
+ * Example:
+ *   @Reflected(Lazy(HandlerRegistry))
+ *   class EventBus {
+ *     constructor(private readonly handlers: () => HandlerRegistry) {}
+ *   }
+ */
+export function Lazy<C extends abstract new (...args: any[]) => any>(type: C): LazyType<InstanceType<C>> {
+  return { [LAZY_MARKER]: true, type };
+}
+
+/**
+ * Check if a parameter type is a Lazy() marker
+ */
+export function isLazyType(value: unknown): value is LazyType<unknown> {
+  return typeof value === 'object' && value !== null && LAZY_MARKER in value;
+}
+
+/**
+ * A parameter type: a class, or a class wrapped in a marker such as Optional() or Lazy()
+ */
+export type DependencyType = (abstract new (...args: any[]) => any) | OptionalType<any> | LazyType<any>;
+
+/**
+ * Helper type to extract instance types from a tuple of parameter types.
+ * Maps [typeof Database, typeof Config] -> [Database, Config],
+ * Optional(Metrics) -> Metrics | undefined and Lazy(Metrics) -> () => Metrics
+ */
+export type InstanceTypes<T extends readonly any[]> = T extends readonly [infer First, ...infer Rest]
+  ? [
+      First extends OptionalType<infer R>
+        ? R | undefined
+        : First extends LazyType<infer R>
+          ? () => R
+          : First extends abstract new (...args: any[]) => infer R ? R : First,
+      ...InstanceTypes<Rest>
+    ]
+  : [];
+
+/**
+ * Check that the parameter types of a factory appear, in the same order, among the
+ * constructor parameter types of its implementation.
+ * Maps [string], [Database, string, Clock] -> true and [Clock, Database], [Database, Clock] -> false
+ */
+export type LinesUpWith<Runtime extends readonly any[], Params extends readonly any[]> =
+  Runtime extends readonly [infer First, ...infer Rest]
+    ? Params extends readonly [infer Param, ...infer ParamsRest]
+      ? [First] extends [Param]
+        ? LinesUpWith<Rest, ParamsRest>
+        : LinesUpWith<Runtime, ParamsRest>
+      : false
+    : true;
+
+/**
+ * The runtime parameter types accepted for an assisted factory of type F implemented by class C:
+ * Runtime if its instance types are the parameter types of F, these line up with the constructor
+ * parameters of C and C creates the result of F, never otherwise.
+ */
+export type FactoryRuntimeTypes<F, C, Runtime extends readonly any[]> =
+  F extends (...args: infer Args) => infer R
+    ? C extends new (...params: infer Params) => R
+      ? Args extends InstanceTypes<Runtime>
+        ? LinesUpWith<Args, Params> extends true ? Runtime : never
+        : never
+      : never
+    : never;
+
+/**
+ * The implementation accepted for an assisted factory of type F without runtime types:
+ * C if it creates the result of F and the parameters of F line up with its constructor
+ * parameters, never otherwise.
+ */
+export type FactoryImplementation<F, C> =
+  F extends (...args: infer Args) => infer R
+    ? C extends new (...params: infer Params) => R
+      ? LinesUpWith<Args, Params> extends true ? C : never
+      : never
+    : never;
+
+/**
+ * Get the DIKey a parameter type refers to, with an optional @Id
+ * @internal
+ */
+export function dependencyKey(type: unknown, id?: string): DIKey {
+  if (isOptionalType(type)) {
+    return DIKey.optional(dependencyKey(type.type, id));
+  }
+  if (isLazyType(type)) {
+    return DIKey.lazy(dependencyKey(type.type, id));
+  }
+  return id ? DIKey.named(type as Callable, id) : DIKey.of(type as Callable);
+}
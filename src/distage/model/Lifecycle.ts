@@ -9,6 +9,9 @@
  *     () => connectToDatabase(), // acquire
  *     (db) => db.disconnect()     // release
  *   );
+ *
+ * Lifecycles compose with map, flatMap, evalTap and Lifecycle.all; composite
+ * lifecycles track every resource they acquire and release them in reverse order.
  */
 
 /**
@@ -23,6 +26,9 @@ export class Lifecycle<T> {
     private readonly releaseFn: (resource: T) => void | Promise<void>,
   ) {}
 
+  /** Acquisition of composite lifecycles, which release per acquisition rather than per resource */
+  private allocateFn?: () => Promise<Allocated<T>>;
+
   /**
    * Create a Lifecycle from acquire and release functions
    */
@@ -77,62 +83,167 @@ export class Lifecycle<T> {
    * cleanup even if an error occurs.
    */
   async use<R>(fn: (resource: T) => R | Promise<R>): Promise<R> {
-    const resource = await this.acquire();
+    const { resource, release } = await this.allocate();
     try {
       return await fn(resource);
     } finally {
-      await this.release(resource);
+      await release();
+    }
+  }
+
+  /**
+   * Acquire the resource, together with the release of this particular acquisition.
+   * Unlike release(resource), this releases the right acquisition even when several
+   * acquisitions yield equal resources.
+   * @internal
+   */
+  async allocate(): Promise<Allocated<T>> {
+    if (this.allocateFn) {
+      return await this.allocateFn();
     }
+    const resource = await this.acquire();
+    return { resource, release: () => this.release(resource) };
   }
 
   /**
-   * Map the resource to a different type
+   * Map the resource to a different type.
+   * The underlying resource is released when the mapped resource is released.
    */
   map<R>(fn: (resource: T) => R | Promise<R>): Lifecycle<R> {
-    return new Lifecycle(
-      async () => {
-        const resource = await this.acquire();
-        return await fn(resource);
-      },
-      async (mapped) => {
-        // Note: We can't release the original resource here
-        // This is a limitation of the map operation
-        // For complex scenarios, use flatMap or compose lifecycles differently
-      },
-    );
+    return Lifecycle.scoped(async (scope) => {
+      const resource = await scope.acquire(this);
+      return await fn(resource);
+    });
   }
 
   /**
-   * Chain two lifecycles together
+   * Chain two lifecycles together.
+   * Both resources are tracked and released in reverse order: inner first, then outer.
    */
   flatMap<R>(fn: (resource: T) => Lifecycle<R>): Lifecycle<R> {
-    return new Lifecycle(
+    return Lifecycle.scoped(async (scope) => {
+      const resource = await scope.acquire(this);
+      return await scope.acquire(fn(resource));
+    });
+  }
+
+  /**
+   * Run an effect on the resource right after it is acquired, keeping the resource.
+   * If the effect fails, the resource is released and the error is propagated.
+   *
+   * Example:
+   *   const pool = Lifecycle.make(() => createPool(), (p) => p.end())
+   *     .evalTap((p) => p.query('SELECT 1'));
+   */
+  evalTap(fn: (resource: T) => void | Promise<void>): Lifecycle<T> {
+    return Lifecycle.scoped(async (scope) => {
+      const resource = await scope.acquire(this);
+      await fn(resource);
+      return resource;
+    });
+  }
+
+  /**
+   * Acquire two resources in parallel.
+   * If either acquisition fails, the other resource is released.
+   */
+  static both<A, B>(first: Lifecycle<A>, second: Lifecycle<B>): Lifecycle<[A, B]> {
+    return Lifecycle.all(first, second);
+  }
+
+  /**
+   * Acquire several resources in parallel, yielding them as a tuple in argument order.
+   * If any acquisition fails, all resources acquired so far are released.
+   *
+   * Example:
+   *   const both = Lifecycle.all(dbLifecycle, cacheLifecycle);
+   *   await both.use(([db, cache]) => ...);
+   */
+  static all<const Ls extends readonly Lifecycle<any>[]>(
+    ...lifecycles: Ls
+  ): Lifecycle<Resources<Ls>> {
+    return Lifecycle.scoped(async (scope) => {
+      // Wait for every acquisition to settle, so nothing is left unreleased on failure
+      const results = await Promise.allSettled(lifecycles.map(l => scope.acquire(l)));
+      for (const result of results) {
+        if (result.status === 'rejected') {
+          throw result.reason;
+        }
+      }
+      return results.map(r => (r as PromiseFulfilledResult<unknown>).value) as Resources<Ls>;
+    });
+  }
+
+  /**
+   * Create a Lifecycle whose acquisition acquires other Lifecycles through a scope.
+   * Everything acquired through the scope is released in reverse order when the
+   * composite resource is released, or right away if the acquisition fails.
+   */
+  private static scoped<T>(acquire: (scope: LifecycleManager) => Promise<T>): Lifecycle<T> {
+    const allocate = async (): Promise<Allocated<T>> => {
+      const scope = new LifecycleManager();
+      try {
+        return { resource: await acquire(scope), release: () => scope.releaseAll() };
+      } catch (error) {
+        return await releaseAfterFailure(error, () => scope.releaseAll());
+      }
+    };
+    // Acquisitions made through acquire(), oldest first, for release(resource) to find its scope
+    const acquired: Allocated<T>[] = [];
+
+    const lifecycle = new Lifecycle<T>(
       async () => {
-        const resource = await this.acquire();
-        const nextLifecycle = fn(resource);
-        return await nextLifecycle.acquire();
+        const allocated = await allocate();
+        acquired.push(allocated);
+        return allocated.resource;
       },
-      async (mapped) => {
-        // Note: This is simplified - in production you'd want to track
-        // both resources and release them in reverse order
+      async (resource) => {
+        // Equal resources can't be told apart here: release the latest acquisition among them
+        for (let i = acquired.length - 1; i >= 0; i--) {
+          if (Object.is(acquired[i].resource, resource)) {
+            const [allocated] = acquired.splice(i, 1);
+            await allocated.release();
+            return;
+          }
+        }
       },
     );
+    lifecycle.allocateFn = allocate;
+    return lifecycle;
   }
 }
 
+/**
+ * The resource types of a tuple of lifecycles.
+ * Maps [Lifecycle<Database>, Lifecycle<Cache>] -> [Database, Cache]
+ */
+export type Resources<Ls extends readonly Lifecycle<any>[]> = {
+  -readonly [K in keyof Ls]: Ls[K] extends Lifecycle<infer R> ? R : never
+};
+
+/**
+ * An acquired resource, with the release of the acquisition that produced it
+ * @internal
+ */
+export interface Allocated<T> {
+  readonly resource: T;
+  release(): Promise<void>;
+}
+
 /**
  * Manages multiple Lifecycle resources and ensures they're all released
  * in reverse order of acquisition (LIFO - Last In, First Out).
  */
 export class LifecycleManager {
-  private resources: Array<{ resource: any; lifecycle: Lifecycle<any> }> = [];
+  // Releases of the acquired resources, in acquisition order
+  private releases: Array<() => Promise<void>> = [];
 
   /**
    * Acquire a resource and track it for cleanup
    */
   async acquire<T>(lifecycle: Lifecycle<T>): Promise<T> {
-    const resource = await lifecycle.acquire();
-    this.resources.push({ resource, lifecycle });
+    const { resource, release } = await lifecycle.allocate();
+    this.releases.push(release);
     return resource;
   }
 
@@ -143,10 +254,10 @@ export class LifecycleManager {
     const errors: Error[] = [];
 
     // Release in reverse order (LIFO)
-    while (this.resources.length > 0) {
-      const { resource, lifecycle } = this.resources.pop()!;
+    while (this.releases.length > 0) {
+      const release = this.releases.pop()!;
       try {
-        await lifecycle.release(resource);
+        await release();
       } catch (error) {
         errors.push(error as Error);
       }
@@ -169,6 +280,29 @@ export class LifecycleManager {
   }
 }
 
+/**
+ * Release resources after `error` interrupted an operation, then rethrow `error`.
+ *
+ * If releasing fails as well, the original failure and the release error
+ * (usually an AggregateLifecycleError) are reported together in an AggregateError,
+ * original failure first.
+ */
+export async function releaseAfterFailure(
+  error: unknown,
+  release: () => Promise<void>,
+): Promise<never> {
+  try {
+    await release();
+  } catch (releaseError) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new AggregateError(
+      [error, releaseError],
+      `${message} (resources could not be released cleanly)`,
+    );
+  }
+  throw error;
+}
+
 /**
  * Error that aggregates multiple cleanup errors
  */
@@ -1,17 +1,8 @@
+import type { DependencyType, InstanceTypes } from '@/distage/model/Dependency';
+
 // Symbol to store constructor parameter types directly on the class
 const CONSTRUCTOR_TYPES_SYMBOL = Symbol('distage:constructorTypes');
 
-/**
- * Helper type to extract instance types from a tuple of constructor types.
- * Maps [typeof Database, typeof Config] -> [Database, Config]
- */
-type InstanceTypes<T extends readonly any[]> = T extends readonly [infer First, ...infer Rest]
-  ? [
-      First extends abstract new (...args: any[]) => infer R ? R : First,
-      ...InstanceTypes<Rest>
-    ]
-  : [];
-
 /**
  * Type-safe decorator to mark a class as injectable and store its constructor parameter types.
  * This allows automatic dependency resolution without needing to call .withDeps().
@@ -49,7 +40,7 @@ type InstanceTypes<T extends readonly any[]> = T extends readonly [infer First,
  *
  * Runtime validation also occurs as a safety check.
  */
-export function Reflected<Args extends readonly (abstract new (...args: any[]) => any)[]>(
+export function Reflected<Args extends readonly DependencyType[]>(
   ...types: Args
 ) {
   return function <
@@ -106,7 +97,7 @@ export function getConstructorTypes(target: any): any[] | undefined {
  */
 export function ApplyReflection<
   C extends new (...args: any[]) => any,
-  Args extends readonly (abstract new (...args: any[]) => any)[]
+  Args extends readonly DependencyType[]
 >(
   targetClass: C,
   ...types: Args
@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Injector,
+  ModuleDef,
+  DIKey,
+  MissingDependencyError,
+  CircularDependencyError,
+  Reflected,
+  Id,
+} from '../src/distage';
+
+describe('Assisted Injection', () => {
+  class Database {}
+  class Clock {}
+
+  @Reflected(Database, String, Clock, Number)
+  class UserSession {
+    constructor(
+      public readonly db: Database,
+      @Id('userId') public readonly userId: string,
+      public readonly clock: Clock,
+      @Id('ttl') public readonly ttl: number,
+    ) {}
+  }
+
+  type SessionFactory = (...args: any[]) => UserSession;
+
+  const base = new ModuleDef()
+    .make(Database).from().type(Database)
+    .make(Clock).from().type(Clock);
+
+  it('should match runtime parameters by name', () => {
+    const module = base.append(new ModuleDef()
+      .make(UserSession).from().assistedFactory({ runtime: ['userId', 'ttl'] }));
+
+    const locator = new Injector().produce(module, [DIKey.of(UserSession)]);
+    const factory = locator.get(DIKey.of(UserSession)) as unknown as SessionFactory;
+    const session = factory('alice', 60);
+
+    expect(session).toBeInstanceOf(UserSession);
+    expect(session.userId).toBe('alice');
+    expect(session.ttl).toBe(60);
+    expect(session.db).toBe(locator.get(DIKey.of(Database)));
+    expect(session.clock).toBe(locator.get(DIKey.of(Clock)));
+    expect(factory('bob', 30)).not.toBe(session);
+  });
+
+  it('should match runtime parameters by DIKey, in the given order', () => {
+    const module = base.append(new ModuleDef()
+      .make(UserSession).from().assistedFactory({
+        runtime: [DIKey.named(Number, 'ttl'), DIKey.named(String, 'userId')],
+      }));
+
+    const factory = new Injector().produceByType(module, UserSession) as unknown as SessionFactory;
+    const session = factory(120, 'carol');
+
+    expect(session.userId).toBe('carol');
+    expect(session.ttl).toBe(120);
+  });
+
+  it('should accept a plain list of runtime parameters', async () => {
+    const module = base.append(new ModuleDef()
+      .make(UserSession).from().assistedFactory(['userId', 'ttl']));
+
+    const factory = await new Injector().produceByTypeAsync(module, UserSession) as unknown as
+      (...args: any[]) => Promise<UserSession>;
+    expect((await factory('dave', 10)).userId).toBe('dave');
+  });
+
+  it('should plan the dependencies resolved by DI', () => {
+    const module = base.append(new ModuleDef()
+      .make(UserSession).from().assistedFactory({ runtime: ['userId', 'ttl'] }));
+
+    const plan = new Injector().plan(module, [DIKey.of(UserSession)]);
+    const step = plan.getStep(DIKey.of(UserSession))!;
+
+    expect(step.dependencies.map(k => k.toString())).toEqual(['f:Database', 'f:Clock']);
+    expect(plan.has(DIKey.of(Clock))).toBe(true);
+  });
+
+  it('should report missing DI dependencies at planning time', () => {
+    const module = new ModuleDef()
+      .make(Database).from().type(Database)
+      .make(UserSession).from().assistedFactory({ runtime: ['userId', 'ttl'] });
+
+    expect(() => new Injector().plan(module, [DIKey.of(UserSession)])).toThrow(MissingDependencyError);
+  });
+
+  it('should produce the dependencies resolved by DI before the factory', async () => {
+    const produced: string[] = [];
+    const module = new ModuleDef()
+      .make(Database).from().func([], async () => { produced.push('Database'); return new Database(); })
+      .make(Clock).from().func([], () => { produced.push('Clock'); return new Clock(); })
+      .make(UserSession).from().assistedFactory({ runtime: ['userId', 'ttl'] });
+
+    const plan = new Injector().plan(module, [DIKey.of(UserSession)]);
+    expect(plan.getSteps().map(step => step.key.toString())).toEqual(['f:Database', 'f:Clock', 'f:UserSession']);
+
+    const locator = await new Injector().produceAsync(module, [DIKey.of(UserSession)]);
+    expect(produced.sort()).toEqual(['Clock', 'Database']);
+
+    const factory = locator.get(DIKey.of(UserSession)) as unknown as (...args: any[]) => Promise<UserSession>;
+    expect((await factory('frank', 5)).clock).toBe(locator.get(DIKey.of(Clock)));
+  });
+
+  it('should report all missing DI dependencies when collecting planning errors', () => {
+    const module = new ModuleDef()
+      .make(UserSession).from().assistedFactory({ runtime: ['userId', 'ttl'] });
+
+    const result = new Injector().planOrErrors(module, [DIKey.of(UserSession)]);
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.failure.errors.every(error => error instanceof MissingDependencyError)).toBe(true);
+      expect(result.failure.errors.map(error => (error as MissingDependencyError).key.toString()))
+        .toEqual(['f:Database', 'f:Clock']);
+    }
+  });
+
+  it('should detect cycles through the dependencies resolved by DI', () => {
+    const module = new ModuleDef()
+      .make(Database).from().type(Database)
+      .make(Clock).from().func([UserSession], () => new Clock())
+      .make(UserSession).from().assistedFactory({ runtime: ['userId', 'ttl'] });
+
+    try {
+      new Injector().plan(module, [DIKey.of(UserSession)]);
+      expect.fail('Should have thrown CircularDependencyError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(CircularDependencyError);
+      expect((error as CircularDependencyError).cycle.map(k => k.toString()))
+        .toEqual(['f:UserSession', 'f:Clock', 'f:UserSession']);
+    }
+  });
+
+  it('should reject runtime parameters that match no constructor parameter', () => {
+    expect(() => new ModuleDef().make(UserSession).from().assistedFactory({ runtime: ['userID'] }))
+      .toThrow("Assisted parameter 'userID' of f:UserSession does not match any parameter of its factory " +
+        '(parameters: db, userId, clock, ttl)');
+    expect(() => new ModuleDef().make(UserSession).from().assistedFactory({ runtime: [DIKey.of(String)] }))
+      .toThrow('Assisted parameter f:String of f:UserSession does not match any parameter of its factory');
+    expect(() => new ModuleDef().make(UserSession).from().assistedFactory({
+      runtime: ['userId', DIKey.named(String, 'userId')],
+    })).toThrow('Assisted parameters of f:UserSession refer to the same parameter twice: userId');
+  });
+
+  it('should reject runtime parameter names when the parameter names are unreliable', () => {
+    @Reflected(Database, String)
+    class BaseSession {
+      constructor(public readonly db: Database, public readonly userId: string) {}
+    }
+    class AdminSession extends BaseSession {}
+
+    expect(() => new ModuleDef().make(AdminSession).from().assistedFactory({ runtime: ['userId'] }))
+      .toThrow("Cannot match assisted parameter 'userId' of f:AdminSession by name: 0 parameter name(s) " +
+        'were read from the source of its factory for 2 dependencies');
+
+    const factory = new Injector().produceByType(
+      base.append(new ModuleDef().make(AdminSession).from().assistedFactory({ runtime: [DIKey.of(String)] })),
+      AdminSession,
+    ) as unknown as (userId: string) => AdminSession;
+    expect(factory('grace').userId).toBe('grace');
+  });
+
+  it('should reject calls with more arguments than runtime parameters', () => {
+    const module = base
+      .append(new ModuleDef().make(String).named('userId').from().value('bound'))
+      .append(new ModuleDef().make(Number).named('ttl').from().value(60))
+      .append(new ModuleDef().make(UserSession).from().assistedFactory());
+
+    const factory = new Injector().produceByType(module, UserSession) as unknown as SessionFactory;
+    expect(factory().userId).toBe('bound');
+    expect(() => factory('alice')).toThrow(
+      'f:UserSession was called with 1 argument(s), but it only has 0 runtime parameter(s): none. ' +
+      'Declare the runtime parameters of the factory by name or DIKey'
+    );
+  });
+});
@@ -5,6 +5,8 @@ import {
   DIKey,
   Functoid,
   Reflected,
+  Lifecycle,
+  ProvisioningError,
 } from '../src/distage';
 
 describe('Async Dependency Injection', () => {
@@ -431,6 +433,80 @@ describe('Async Dependency Injection', () => {
         injector.produceAsync(module, [DIKey.of(Service)])
       ).rejects.toThrow('Config load failed');
     });
+
+    it('should report failed and never attempted keys in a ProvisioningError', async () => {
+      class Config {}
+      class Cache {}
+      class Service {}
+
+      const module = new ModuleDef()
+        .make(Config)
+        .from()
+        .func([], async () => {
+          await new Promise(resolve => setTimeout(resolve, 5));
+          throw new Error('Config load failed');
+        })
+        .make(Cache)
+        .from()
+        .func([], async () => {
+          await new Promise(resolve => setTimeout(resolve, 5));
+          throw new Error('Cache unreachable');
+        })
+        .make(Service)
+        .from()
+        .func([Config, Cache], () => new Service());
+
+      const injector = new Injector();
+
+      try {
+        await injector.produceAsync(module, [DIKey.of(Service)]);
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ProvisioningError);
+        const err = error as ProvisioningError;
+        expect(err.failures.map(f => f.key.toString()).sort()).toEqual(['f:Cache', 'f:Config']);
+        expect(err.failures.map(f => (f.cause as Error).message).sort())
+          .toEqual(['Cache unreachable', 'Config load failed']);
+        expect(err.notAttempted.map(k => k.toString())).toEqual(['f:Service']);
+        expect(err.message).toContain('Never attempted: f:Service');
+      }
+    });
+
+    it('should wait for in-flight siblings and release their resources on failure', async () => {
+      const log: string[] = [];
+
+      class Connection {}
+      class Config {}
+
+      const module = new ModuleDef()
+        .make(Connection)
+        .from()
+        .resource(
+          Lifecycle.make(
+            async () => {
+              await new Promise(resolve => setTimeout(resolve, 20));
+              log.push('acquire');
+              return new Connection();
+            },
+            () => {
+              log.push('release');
+            }
+          )
+        )
+        .make(Config)
+        .from()
+        .func([], async () => {
+          throw new Error('Config load failed');
+        });
+
+      const injector = new Injector();
+
+      await expect(
+        injector.produceAsync(module, [DIKey.of(Connection), DIKey.of(Config)])
+      ).rejects.toThrow(ProvisioningError);
+
+      expect(log).toEqual(['acquire', 'release']);
+    });
   });
 
   describe('Real-world example: Async database connection', () => {
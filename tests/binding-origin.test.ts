@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Injector,
+  ModuleDef,
+  DIKey,
+  Axis,
+  AxisPoint,
+  Activation,
+  BindingOrigin,
+  MissingDependencyError,
+  ConflictingBindingsError,
+  Reflected,
+} from '../src/distage';
+
+describe('Binding Origins', () => {
+  class Config {}
+
+  class Plugin {}
+
+  @Reflected(Config)
+  class Service {
+    constructor(public readonly config: Config) {}
+  }
+
+  it('should record the file and line of the DSL call', () => {
+    const module = new ModuleDef()
+      .make(Config).from().value(new Config());
+
+    const origin = module.getBindings()[0].origin!;
+    expect(origin).toBeInstanceOf(BindingOrigin);
+    expect(origin.file).toContain('binding-origin.test.ts');
+    expect(origin.line).toBeGreaterThan(0);
+    expect(origin.module).toBeUndefined();
+  });
+
+  it('should record the module name for regular and set bindings', () => {
+    const module = new ModuleDef('plugins')
+      .make(Config).from().value(new Config())
+      .many(Plugin).from().type(Plugin);
+
+    const [config, plugin] = module.getBindings();
+    expect(config.origin?.module).toBe('plugins');
+    expect(plugin.origin?.module).toBe('plugins');
+    expect(plugin.origin?.toString()).toMatch(/binding-origin\.test\.ts:\d+:\d+ in module "plugins"$/);
+  });
+
+  it('should distinguish bindings defined on different lines', () => {
+    const module = new ModuleDef()
+      .make(Config).from().value(new Config())
+      .make(Plugin).from().type(Plugin);
+
+    const [first, second] = module.getBindings();
+    expect(second.origin!.line).toBe(first.origin!.line! + 1);
+  });
+
+  it('should keep origins when modules are combined', () => {
+    const base = new ModuleDef('base').make(Config).from().value(new Config());
+    const overrides = new ModuleDef('overrides').make(Config).from().value(new Config());
+
+    expect(base.append(overrides).getBindings().map(b => b.origin?.module)).toEqual(['base', 'overrides']);
+    expect(base.overriddenBy(overrides).getBindings()[0].origin?.module).toBe('overrides');
+  });
+
+  it('should show origins of conflicting candidates', () => {
+    const module = new ModuleDef('app')
+      .make(Config).from().value(new Config())
+      .make(Config).from().value(new Config());
+
+    try {
+      new Injector().plan(module, [DIKey.of(Config)]);
+      expect.fail('Should have thrown');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConflictingBindingsError);
+      const lines = (error as Error).message.split('\n');
+      expect(lines.slice(1)).toHaveLength(2);
+      for (const line of lines.slice(1)) {
+        expect(line).toMatch(/- Instance binding \(defined at .*binding-origin\.test\.ts:\d+:\d+ in module "app"\)/);
+      }
+    }
+  });
+
+  it('should show the origin of the binding that required a missing dependency', () => {
+    const module = new ModuleDef('services').make(Service).from().type(Service);
+
+    try {
+      new Injector().plan(module, [DIKey.of(Service)]);
+      expect.fail('Should have thrown');
+    } catch (error) {
+      expect(error).toBeInstanceOf(MissingDependencyError);
+      const err = error as MissingDependencyError;
+      expect(err.requiredByOrigin).toBe(module.getBindings()[0].origin);
+      expect(err.message).toContain(`required by f:Service (defined at ${err.requiredByOrigin})`);
+    }
+  });
+
+  it('should show the requiring origin when candidates are filtered out by the activation', () => {
+    const Env = Axis.of('Env', ['Prod', 'Test']);
+
+    const module = new ModuleDef()
+      .make(Service).tagged(Env, 'Prod').from().type(Service)
+      .make(Config).tagged(Env, 'Test').from().value(new Config());
+
+    expect(() => new Injector().plan(module, [DIKey.of(Service)], {
+      activation: Activation.of(AxisPoint.of(Env, 'Prod')),
+    })).toThrow(/Missing binding for f:Config, required by f:Service \(defined at .*binding-origin\.test\.ts/);
+  });
+
+  it('should include origins in the plan dump', () => {
+    const module = new ModuleDef('app')
+      .make(Config).from().value(new Config())
+      .make(Service).from().type(Service);
+
+    const dump = new Injector().plan(module, [DIKey.of(Service)]).toString();
+    expect(dump).toMatch(/f:Service <- \[f:Config\]  defined at .*binding-origin\.test\.ts:\d+:\d+ in module "app"/);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Injector,
+  ModuleDef,
+  DIKey,
+  Functoid,
+  CircularDependencyError,
+  Reflected,
+  ApplyReflection,
+} from '../src/distage';
+
+describe('Cycle Resolution with Proxies', () => {
+  class Notifier {
+    constructor(public readonly users: UserService) {}
+
+    greet(name: string): string {
+      return `Hello, ${this.users.displayName(name)}`;
+    }
+  }
+
+  @Reflected(Notifier)
+  class UserService {
+    prefix = 'user:';
+
+    constructor(public readonly notifier: Notifier) {}
+
+    displayName(name: string): string {
+      return `${this.prefix}${name}`;
+    }
+  }
+
+  ApplyReflection(Notifier, UserService);
+
+  const module = new ModuleDef()
+    .make(UserService).from().type(UserService)
+    .make(Notifier).from().type(Notifier);
+
+  it('should fail on cycles by default', () => {
+    try {
+      new Injector().plan(module, [DIKey.of(UserService)]);
+      expect.fail('Should have thrown');
+    } catch (error) {
+      expect(error).toBeInstanceOf(CircularDependencyError);
+      expect((error as CircularDependencyError).reason).toBeUndefined();
+    }
+  });
+
+  it('should resolve a cycle of class bindings with a proxy', () => {
+    const locator = new Injector().produce(module, [DIKey.of(UserService)], { cycles: 'proxy' });
+    const users = locator.get(DIKey.of(UserService));
+    const notifier = locator.get(DIKey.of(Notifier));
+
+    expect(users.notifier).toBe(notifier);
+    expect(notifier.users).toBeInstanceOf(UserService);
+    expect(notifier.users.notifier).toBe(notifier);
+    expect(notifier.greet('alice')).toBe('Hello, user:alice');
+
+    notifier.users.prefix = 'member:';
+    expect(users.displayName('bob')).toBe('member:bob');
+  });
+
+  it('should show the proxied dependency in the plan', () => {
+    const plan = new Injector().plan(module, [DIKey.of(UserService)], { cycles: 'proxy' });
+
+    expect(plan.getSteps().map(s => s.key.toString())).toEqual(['f:Notifier', 'f:UserService']);
+    expect(plan.getStep(DIKey.of(Notifier))!.proxiedDependencies!.map(k => k.toString())).toEqual(['f:UserService']);
+    expect(plan.toString()).toContain('f:Notifier <- [f:UserService (proxy)]');
+  });
+
+  it('should resolve cycles in async production', async () => {
+    const locator = await new Injector().produceAsync(module, [DIKey.of(Notifier)], { cycles: 'proxy' });
+
+    expect(locator.get(DIKey.of(Notifier)).greet('carol')).toBe('Hello, user:carol');
+  });
+
+  it('should proxy a class binding when the re-entered key cannot be proxied', () => {
+    const withFactory = new ModuleDef()
+      .make(UserService).from().type(UserService)
+      .make(Notifier).from().factory(
+        new Functoid((users: UserService) => new Notifier(users)).withDependencies([DIKey.of(UserService)]),
+      );
+
+    const plan = new Injector().plan(withFactory, [DIKey.of(Notifier)], { cycles: 'proxy' });
+    expect(plan.toString()).toContain('f:Notifier <- [f:UserService (proxy)]');
+
+    const locator = new Injector().produceFromPlan(plan);
+    expect(locator.get(DIKey.of(Notifier)).greet('dave')).toBe('Hello, user:dave');
+  });
+
+  it('should fail with the reason when no key of the cycle can be proxied', () => {
+    const factories = new ModuleDef()
+      .make(UserService).from().func([Notifier], async (notifier) => new UserService(notifier))
+      .make(Notifier).from().func([UserService], (users) => new Notifier(users));
+
+    try {
+      new Injector().plan(factories, [DIKey.of(UserService)], { cycles: 'proxy' });
+      expect.fail('Should have thrown');
+    } catch (error) {
+      expect(error).toBeInstanceOf(CircularDependencyError);
+      const err = error as CircularDependencyError;
+      expect(err.reason).toBe(
+        'f:UserService is produced by an async factory; ' +
+        'f:Notifier is produced by a factory, which has no class to proxy',
+      );
+      expect(err.message).toContain('Cannot be resolved with a proxy: f:UserService is produced by an async factory');
+    }
+  });
+
+  it('should fail when the proxy is used before the instance is produced', () => {
+    @Reflected(UserService)
+    class EagerNotifier extends Notifier {
+      constructor(users: UserService) {
+        super(users);
+        users.displayName('eve');
+      }
+    }
+
+    const eager = new ModuleDef()
+      .make(UserService).from().type(UserService)
+      .make(Notifier).from().type(EagerNotifier);
+
+    expect(() => new Injector().produce(eager, [DIKey.of(UserService)], { cycles: 'proxy' }))
+      .toThrow('Proxy for f:UserService was used before the instance was produced');
+  });
+});
@@ -5,6 +5,8 @@ import {
   DIKey,
   MissingDependencyError,
   CircularDependencyError,
+  AxisConflictError,
+  Axis,
   Functoid,
   Reflected,
 } from '../src/distage';
@@ -148,4 +150,57 @@ describe('Error Handling', () => {
       injector.produceByType(module, NeedsNamedDep);
     }).toThrow(MissingDependencyError);
   });
+
+  it('should expose and render the full dependency path of a missing dependency', () => {
+    class MissingService {}
+
+    @Reflected(MissingService)
+    class Repository {
+      constructor(public readonly missing: MissingService) {}
+    }
+
+    @Reflected(Repository)
+    class Controller {
+      constructor(public readonly repository: Repository) {}
+    }
+
+    const module = new ModuleDef()
+      .make(Repository).from().type(Repository)
+      .make(Controller).from().type(Controller);
+
+    try {
+      new Injector().plan(module, [DIKey.of(Controller)]);
+      expect.fail('Should have thrown');
+    } catch (error) {
+      expect(error).toBeInstanceOf(MissingDependencyError);
+      const err = error as MissingDependencyError;
+      expect(err.path).toEqual([DIKey.of(Controller), DIKey.of(Repository), DIKey.of(MissingService)]);
+      expect(err.message).toContain(
+        'Dependency path:\n' +
+        '  f:Controller\n' +
+        '    └─ f:Repository\n' +
+        '      └─ f:MissingService',
+      );
+    }
+  });
+
+  it('should name the binding that introduced each axis constraint', () => {
+    const Env = Axis.of('Env', ['Prod', 'Test']);
+    class Database {}
+    class Service {}
+    class App {}
+
+    const error = new AxisConflictError(
+      DIKey.of(Database),
+      DIKey.of(Service),
+      [{ axis: Env, choices: ['Prod'], introducedBy: DIKey.of(App) }],
+      undefined,
+      [],
+      [DIKey.of(App), DIKey.of(Service), DIKey.of(Database)],
+    );
+
+    expect(error.pathConstraints).toBe('Env must be Prod');
+    expect(error.message).toContain('Constraints on the path:\n  - Env:Prod introduced by f:App');
+    expect(error.message).toContain('    └─ f:Service');
+  });
 });
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Injector,
+  ModuleDef,
+  DIKey,
+  Reflected,
+  Id,
+} from '../src/distage';
+
+describe('Typed Factories', () => {
+  class Database {
+    readonly url = 'db://test';
+  }
+  class Clock {
+    now(): number {
+      return 0;
+    }
+  }
+
+  @Reflected(Database, String, Clock, Number)
+  class UserSession {
+    constructor(
+      public readonly db: Database,
+      @Id('userId') public readonly userId: string,
+      public readonly clock: Clock,
+      @Id('ttl') public readonly ttl: number,
+    ) {}
+  }
+
+  type SessionFactory = (userId: string, ttl: number) => UserSession;
+  const SessionFactory = Symbol('SessionFactory');
+  const SessionFactoryKey = DIKey.token<SessionFactory>(SessionFactory);
+
+  const module = new ModuleDef()
+    .make(Database).from().type(Database)
+    .make(Clock).from().type(Clock)
+    .make<SessionFactory>(SessionFactory).from().factoryOf(UserSession, [String, Number]);
+
+  it('should bind a factory type to a typed callable', () => {
+    const locator = new Injector().produce(module, [SessionFactoryKey]);
+    const factory = locator.get(SessionFactoryKey);
+    const session = factory('alice', 60);
+
+    expect(session).toBeInstanceOf(UserSession);
+    expect(session.userId).toBe('alice');
+    expect(session.ttl).toBe(60);
+    expect(session.db).toBe(locator.get(DIKey.of(Database)));
+    expect(session.clock).toBe(locator.get(DIKey.of(Clock)));
+    expect(factory('bob', 30)).not.toBe(session);
+  });
+
+  it('should return instances, not promises, from factories produced asynchronously', async () => {
+    const locator = await new Injector().produceAsync(module, [SessionFactoryKey]);
+
+    expect(locator.get(SessionFactoryKey)('carol', 10)).toBeInstanceOf(UserSession);
+  });
+
+  it('should match runtime types with constructor parameters in order', () => {
+    @Reflected(String, Database, String)
+    class Greeting {
+      constructor(
+        public readonly greeting: string,
+        public readonly db: Database,
+        public readonly name: string,
+      ) {}
+    }
+
+    type NameFactory = (name: string) => Greeting;
+    const NameFactory = Symbol('NameFactory');
+    type GreetingFactory = (greeting: string, name: string) => Greeting;
+    const GreetingFactory = Symbol('GreetingFactory');
+
+    const greetings = new ModuleDef()
+      .make(Database).from().type(Database)
+      .make(String).from().value('Hello')
+      .make<NameFactory>(NameFactory).from().factoryOf(Greeting, [String])
+      .make<GreetingFactory>(GreetingFactory).from().factoryOf(Greeting, [String, String]);
+    const locator = new Injector().produce(greetings, [
+      DIKey.token<NameFactory>(NameFactory),
+      DIKey.token<GreetingFactory>(GreetingFactory),
+    ]);
+
+    const byName = locator.get(DIKey.token<NameFactory>(NameFactory))('dave');
+    expect([byName.greeting, byName.name]).toEqual(['dave', 'Hello']);
+
+    const byBoth = locator.get(DIKey.token<GreetingFactory>(GreetingFactory))('Hi', 'erin');
+    expect([byBoth.greeting, byBoth.name]).toEqual(['Hi', 'erin']);
+  });
+
+  it('should plan the dependencies resolved by DI', () => {
+    const plan = new Injector().plan(module, [SessionFactoryKey]);
+    const step = plan.getStep(SessionFactoryKey)!;
+
+    expect(step.dependencies.map(k => k.toString())).toEqual(['f:Database', 'f:Clock']);
+  });
+
+  it('should reject runtime types that match no remaining constructor parameter', () => {
+    expect(() => new ModuleDef().make<SessionFactory>(SessionFactory).from()
+      .factoryOf(UserSession, [Number, String] as never))
+      .toThrow('Runtime parameter String of token:SessionFactory does not match any parameter of its factory ' +
+        'after the previous runtime parameters (dependencies: f:Database, f:String@Id("userId"), ' +
+        'f:Clock, f:Number@Id("ttl"))');
+  });
+
+  it('should take the constructor parameters without a binding as runtime parameters', async () => {
+    const inferred = new ModuleDef()
+      .make(Database).from().type(Database)
+      .make(Clock).from().type(Clock)
+      .make<SessionFactory>(SessionFactory).from().factoryOf(UserSession);
+
+    const plan = new Injector().plan(inferred, [SessionFactoryKey]);
+    expect(plan.getStep(SessionFactoryKey)!.dependencies.map(k => k.toString())).toEqual(['f:Database', 'f:Clock']);
+
+    const session = new Injector().produce(inferred, [SessionFactoryKey]).get(SessionFactoryKey)('frank', 5);
+    expect([session.userId, session.ttl]).toEqual(['frank', 5]);
+
+    const locator = await new Injector().produceAsync(inferred, [SessionFactoryKey]);
+    expect(locator.get(SessionFactoryKey)('grace', 15)).toBeInstanceOf(UserSession);
+  });
+
+  it('should reject calls that do not match the inferred runtime parameters', () => {
+    const bound = new ModuleDef()
+      .make(Database).from().type(Database)
+      .make(Clock).from().type(Clock)
+      .make(Number).named('ttl').from().value(60)
+      .make<SessionFactory>(SessionFactory).from().factoryOf(UserSession);
+
+    const factory = new Injector().produce(bound, [SessionFactoryKey]).get(SessionFactoryKey);
+    expect(() => factory('heidi', 30)).toThrow(
+      'token:SessionFactory was called with 2 argument(s), but its runtime parameters are inferred as the ' +
+      'parameters without a binding: f:String@Id("userId"). Pass the runtime types to factoryOf() to choose them'
+    );
+  });
+
+  it('should reject factory types that do not line up at compile time', () => {
+    const rejected = (builder: ModuleDef) => {
+      // @ts-expect-error the runtime types are not the parameters of the factory type
+      builder.make<SessionFactory>(SessionFactory).from().factoryOf(UserSession, [String]);
+      builder.make<(ttl: number, userId: string) => UserSession>(SessionFactory).from()
+        // @ts-expect-error the parameters of the factory type are out of constructor order
+        .factoryOf(UserSession, [Number, String]);
+      builder.make<(userId: string, ttl: number) => Database>(SessionFactory).from()
+        // @ts-expect-error the class does not create the result of the factory type
+        .factoryOf(Clock, [String, Number]);
+      // @ts-expect-error the binding is not a factory type
+      builder.make(UserSession).from().factoryOf(UserSession, [String, Number]);
+      builder.make<(ttl: number, userId: string) => UserSession>(SessionFactory).from()
+        // @ts-expect-error without runtime types, the parameters of the factory type are still checked
+        .factoryOf(UserSession);
+      builder.make<(userId: string, ttl: number) => Database>(SessionFactory).from()
+        // @ts-expect-error without runtime types, the class must still create the result
+        .factoryOf(Clock);
+    };
+
+    expect(rejected).toBeTypeOf('function');
+  });
+});
@@ -131,4 +131,14 @@ describe('Functoid', () => {
       functoid.getDependencies();
     }).toThrow(/type information is missing/);
   });
+
+  it('should read parameter names past default values with parentheses, commas and strings', () => {
+    const functoid = Functoid.fromFunctionUnsafe(
+      (config: Config, title = ['a, b', ')'].join(', '), { db }: { db?: Database } = {}, pages = Math.max(1, 2)) =>
+        ({ config, title, db, pages }),
+    );
+
+    expect(functoid.getParameterNames()).toEqual(['config', 'title', '', 'pages']);
+    expect(Functoid.fromConstructor(Config).getParameterNames()).toEqual(['value']);
+  });
 });
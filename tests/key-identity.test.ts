@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Injector,
+  ModuleDef,
+  DIKey,
+  MissingDependencyError,
+  Reflected,
+} from '../src/distage';
+
+describe('Key Identity', () => {
+  // Two unrelated classes that happen to have the same name, as if from different packages
+  const defineConfig = (source: string) => class Config {
+    readonly source = source;
+  };
+  const DbConfig = defineConfig('db');
+  const HttpConfig = defineConfig('http');
+
+  it('should keep readable names', () => {
+    expect(DIKey.of(DbConfig).toString()).toBe('f:Config');
+    expect(DIKey.of(HttpConfig).toString()).toBe('f:Config');
+  });
+
+  it('should give distinct map keys to distinct types with the same name', () => {
+    expect(DIKey.of(DbConfig).toMapKey()).not.toBe(DIKey.of(HttpConfig).toMapKey());
+    expect(DIKey.of(DbConfig).toMapKey()).toBe(DIKey.of(DbConfig).toMapKey());
+    expect(DIKey.set(DbConfig).toMapKey()).not.toBe(DIKey.set(HttpConfig).toMapKey());
+  });
+
+  it('should give distinct map keys to anonymous functions and tokens with the same description', () => {
+    const first = (() => () => ({}))();
+    const second = (() => () => ({}))();
+    expect(DIKey.of(first).toMapKey()).not.toBe(DIKey.of(second).toMapKey());
+
+    const tokenA = Symbol('Logger');
+    const tokenB = Symbol('Logger');
+    expect(DIKey.token(tokenA).toMapKey()).not.toBe(DIKey.token(tokenB).toMapKey());
+    expect(DIKey.token(tokenA).toMapKey()).toBe(DIKey.token(tokenA).toMapKey());
+  });
+
+  it('should distinguish a missing @Id from an empty one', () => {
+    expect(DIKey.named(DbConfig, '').toMapKey()).not.toBe(DIKey.of(DbConfig).toMapKey());
+  });
+
+  it('should plan and produce types with the same name separately', () => {
+    @Reflected(DbConfig, HttpConfig)
+    class App {
+      constructor(
+        public readonly db: InstanceType<typeof DbConfig>,
+        public readonly http: InstanceType<typeof HttpConfig>,
+      ) {}
+    }
+
+    const module = new ModuleDef()
+      .make(DbConfig).from().type(DbConfig)
+      .make(HttpConfig).from().type(HttpConfig)
+      .make(App).from().type(App);
+
+    const locator = new Injector().produce(module, [DIKey.of(App)]);
+    const app = locator.get(DIKey.of(App));
+
+    expect(app.db.source).toBe('db');
+    expect(app.http.source).toBe('http');
+    expect(locator.get(DIKey.of(DbConfig)).source).toBe('db');
+    expect(locator.get(DIKey.of(HttpConfig)).source).toBe('http');
+  });
+
+  it('should point out a different type with the same name when a binding is missing', () => {
+    const module = new ModuleDef().make(HttpConfig).from().type(HttpConfig);
+
+    try {
+      new Injector().plan(module, [DIKey.of(DbConfig)]);
+      expect.fail('Should have thrown');
+    } catch (error) {
+      expect(error).toBeInstanceOf(MissingDependencyError);
+      expect((error as MissingDependencyError).suggestions).toEqual([
+        expect.stringContaining('f:Config: a different type with the same name'),
+      ]);
+    }
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Injector,
+  ModuleDef,
+  DIKey,
+  Functoid,
+  CircularDependencyError,
+  MissingDependencyError,
+  Lazy,
+  Reflected,
+  ApplyReflection,
+} from '../src/distage';
+
+describe('Lazy Dependencies', () => {
+  class Config {}
+
+  class HandlerRegistry {
+    constructor(public readonly bus: EventBus) {
+      bus.subscribe(this);
+    }
+  }
+
+  @Reflected(Lazy(HandlerRegistry))
+  class EventBus {
+    registries: HandlerRegistry[] = [];
+
+    constructor(public readonly registry: () => HandlerRegistry) {}
+
+    subscribe(registry: HandlerRegistry): void {
+      this.registries.push(registry);
+    }
+  }
+
+  // Declared after HandlerRegistry, so its types are applied afterwards
+  ApplyReflection(HandlerRegistry, EventBus);
+
+  const module = new ModuleDef()
+    .make(EventBus).from().type(EventBus)
+    .make(HandlerRegistry).from().type(HandlerRegistry);
+
+  it('should break a cycle with a lazy dependency', () => {
+    const locator = new Injector().produce(module, [DIKey.of(HandlerRegistry)]);
+    const bus = locator.get(DIKey.of(EventBus));
+    const registry = locator.get(DIKey.of(HandlerRegistry));
+
+    expect(registry.bus).toBe(bus);
+    expect(bus.registry()).toBe(registry);
+    expect(bus.registries).toEqual([registry]);
+  });
+
+  it('should plan the lazy target even if only reached lazily', () => {
+    const plan = new Injector().plan(module, [DIKey.of(EventBus)]);
+
+    expect(plan.getSteps().map(s => s.key.toString())).toEqual(['f:EventBus', 'f:HandlerRegistry']);
+    expect(plan.toString()).toContain('f:EventBus <- [f:HandlerRegistry (lazy)]');
+  });
+
+  it('should break cycles in async production', async () => {
+    const locator = await new Injector().produceAsync(module, [DIKey.of(EventBus)]);
+    const bus = locator.get(DIKey.of(EventBus));
+
+    expect(bus.registry()).toBe(locator.get(DIKey.of(HandlerRegistry)));
+  });
+
+  it('should fail when the instance is used before it is produced', () => {
+    @Reflected(Lazy(Config))
+    class Eager {
+      constructor(config: () => Config) {
+        config();
+      }
+    }
+
+    @Reflected(Eager)
+    class ConfigUser extends Config {
+      constructor(public readonly eager: Eager) {
+        super();
+      }
+    }
+
+    const eagerModule = new ModuleDef()
+      .make(Eager).from().type(Eager)
+      .make(Config).from().type(ConfigUser);
+
+    expect(() => new Injector().produce(eagerModule, [DIKey.of(Config)]))
+      .toThrow('Lazy dependency f:Config was used before it was produced');
+  });
+
+  it('should be usable in .func() and Functoid.withDependencies()', () => {
+    const lazyModule = new ModuleDef()
+      .make(Config).from().value(new Config())
+      .make(EventBus).from().func([Lazy(HandlerRegistry)], (registry) => new EventBus(registry))
+      .make(HandlerRegistry).from().factory(
+        new Functoid((bus: EventBus, config: () => Config) => {
+          lazyConfig = config;
+          return new HandlerRegistry(bus);
+        }).withDependencies([DIKey.of(EventBus), DIKey.lazy(Config)]),
+      );
+    let lazyConfig: (() => Config) | undefined;
+
+    const locator = new Injector().produce(lazyModule, [DIKey.of(EventBus)]);
+    expect(locator.get(DIKey.of(EventBus)).registry()).toBe(locator.get(DIKey.of(HandlerRegistry)));
+    expect(lazyConfig!()).toBe(locator.get(DIKey.of(Config)));
+  });
+
+  it('should still detect cycles without lazy dependencies', () => {
+    const strict = new ModuleDef()
+      .make(EventBus).from().factory(
+        new Functoid((registry: HandlerRegistry) => new EventBus(() => registry))
+          .withDependencies([DIKey.of(HandlerRegistry)]),
+      )
+      .make(HandlerRegistry).from().type(HandlerRegistry);
+
+    expect(() => new Injector().plan(strict, [DIKey.of(EventBus)])).toThrow(CircularDependencyError);
+  });
+
+  it('should report a missing lazy dependency with the path that requested it', () => {
+    const incomplete = new ModuleDef().make(EventBus).from().type(EventBus);
+
+    try {
+      new Injector().plan(incomplete, [DIKey.of(EventBus)]);
+      expect.fail('Should have thrown');
+    } catch (error) {
+      expect(error).toBeInstanceOf(MissingDependencyError);
+      const err = error as MissingDependencyError;
+      expect(err.path.map(k => k.toString())).toEqual(['f:EventBus', 'f:HandlerRegistry']);
+    }
+  });
+
+  it('should drop a weak set element whose lazy dependency is missing', () => {
+    class Missing {}
+    class Plugin {
+      constructor(public readonly name: string) {}
+    }
+
+    const plugins = new ModuleDef()
+      .many(Plugin).from().value(new Plugin('core'))
+      .many(Plugin).makeWeak().from().factory(
+        new Functoid((_missing: () => Missing) => new Plugin('extra')).withDependencies([DIKey.lazy(Missing)]),
+      );
+
+    const result = new Injector().planOrErrors(plugins, [DIKey.set(Plugin)]);
+    expect(result.success).toBe(true);
+
+    const locator = new Injector().produce(plugins, [DIKey.set(Plugin)]);
+    expect(Array.from(locator.getSet(Plugin), plugin => plugin.name)).toEqual(['core']);
+  });
+
+  it('should let other dependents reach the lazy dependencies of a dropped weak element', () => {
+    class Missing {}
+    class Storage {
+      constructor(public readonly missing: Missing) {}
+    }
+    class Plugin {
+      constructor(public readonly name: string) {}
+    }
+
+    const plugins = new ModuleDef()
+      .make(Storage).from().func([Missing], missing => new Storage(missing))
+      .make(String).from().func([Lazy(Storage)], () => 'backup')
+      .many(Plugin).from().value(new Plugin('core'))
+      .many(Plugin).makeWeak().from().factory(
+        new Functoid((_storage: () => Storage) => new Plugin('storage')).withDependencies([DIKey.lazy(Storage)]),
+      );
+
+    const result = new Injector().planOrErrors(plugins, [DIKey.set(Plugin), DIKey.of(String)]);
+    expect(result.success ? [] : result.failure.errors.map(error => error.constructor)).toEqual([MissingDependencyError]);
+  });
+
+  it('should reject dependencies that are both lazy and optional', () => {
+    expect(() => DIKey.lazy(DIKey.optional(Config)))
+      .toThrow('Cannot make the optional dependency f:Config lazy: a dependency is either lazy or optional');
+    expect(() => DIKey.optional(DIKey.lazy(Config)))
+      .toThrow('Cannot make the lazy dependency f:Config optional: a dependency is either lazy or optional');
+  });
+});
@@ -0,0 +1,303 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Injector,
+  ModuleDef,
+  DIKey,
+  Functoid,
+  Lifecycle,
+  Reflected,
+  AggregateLifecycleError,
+} from '../src/distage';
+
+describe('Lifecycle Bindings', () => {
+  class Config {
+    constructor(public readonly url: string) {}
+  }
+
+  class Connection {
+    open = false;
+
+    constructor(public readonly url: string) {}
+  }
+
+  @Reflected(Connection)
+  class Repository {
+    constructor(public readonly connection: Connection) {}
+  }
+
+  it('should acquire a Lifecycle value during production', async () => {
+    const log: string[] = [];
+
+    const module = new ModuleDef()
+      .make(Connection).from().resource(
+        Lifecycle.make(
+          () => {
+            log.push('acquire');
+            const conn = new Connection('db://local');
+            conn.open = true;
+            return conn;
+          },
+          (conn) => {
+            log.push('release');
+            conn.open = false;
+          }
+        )
+      );
+
+    const injector = new Injector();
+    const locator = await injector.produceAsync(module, [DIKey.of(Connection)]);
+
+    const connection = locator.get(DIKey.of(Connection));
+    expect(connection.open).toBe(true);
+    expect(log).toEqual(['acquire']);
+
+    await locator.close();
+    expect(connection.open).toBe(false);
+    expect(log).toEqual(['acquire', 'release']);
+  });
+
+  it('should build a Lifecycle from injected dependencies', async () => {
+    const module = new ModuleDef()
+      .make(Config).from().value(new Config('db://injected'))
+      .make(Connection).from().resource(
+        [Config],
+        (config) => Lifecycle.make(
+          () => new Connection(config.url),
+          () => {}
+        )
+      );
+
+    const injector = new Injector();
+    const locator = await injector.produceAsync(module, [DIKey.of(Connection)]);
+
+    expect(locator.get(DIKey.of(Connection)).url).toBe('db://injected');
+  });
+
+  it('should accept a Functoid producing a Lifecycle', async () => {
+    const functoid = Functoid.fromFunction(
+      [Config],
+      async (config) => Lifecycle.pure(new Connection(config.url))
+    );
+
+    const module = new ModuleDef()
+      .make(Config).from().value(new Config('db://functoid'))
+      .make(Connection).from().resource(functoid);
+
+    const injector = new Injector();
+    const locator = await injector.produceAsync(module, [DIKey.of(Connection)]);
+
+    expect(locator.get(DIKey.of(Connection)).url).toBe('db://functoid');
+  });
+
+  it('should inject acquired resources into dependents', async () => {
+    const module = new ModuleDef()
+      .make(Connection).from().resource(
+        Lifecycle.make(
+          () => {
+            const conn = new Connection('db://shared');
+            conn.open = true;
+            return conn;
+          },
+          (conn) => {
+            conn.open = false;
+          }
+        )
+      )
+      .make(Repository).from().type(Repository);
+
+    const injector = new Injector();
+    const locator = await injector.produceAsync(module, [DIKey.of(Repository)]);
+
+    const repository = locator.get(DIKey.of(Repository));
+    expect(repository.connection).toBe(locator.get(DIKey.of(Connection)));
+    expect(repository.connection.open).toBe(true);
+
+    await locator.close();
+    expect(repository.connection.open).toBe(false);
+  });
+
+  it('should release resources in reverse order of acquisition', async () => {
+    const log: string[] = [];
+
+    class Pool {
+      constructor(public readonly connection: Connection) {}
+    }
+
+    const module = new ModuleDef()
+      .make(Connection).from().resource(
+        Lifecycle.make(
+          () => {
+            log.push('acquire-connection');
+            return new Connection('db://ordered');
+          },
+          () => {
+            log.push('release-connection');
+          }
+        )
+      )
+      .make(Pool).from().resource(
+        [Connection],
+        (connection) => Lifecycle.make(
+          () => {
+            log.push('acquire-pool');
+            return new Pool(connection);
+          },
+          () => {
+            log.push('release-pool');
+          }
+        )
+      );
+
+    const injector = new Injector();
+    const locator = await injector.produceAsync(module, [DIKey.of(Pool)]);
+    await locator.close();
+
+    expect(log).toEqual([
+      'acquire-connection',
+      'acquire-pool',
+      'release-pool',
+      'release-connection',
+    ]);
+  });
+
+  it('should report release failures from close()', async () => {
+    const module = new ModuleDef()
+      .make(Connection).from().resource(
+        Lifecycle.make(
+          () => new Connection('db://broken'),
+          () => {
+            throw new Error('release failed');
+          }
+        )
+      );
+
+    const injector = new Injector();
+    const locator = await injector.produceAsync(module, [DIKey.of(Connection)]);
+
+    await expect(locator.close()).rejects.toThrow(AggregateLifecycleError);
+  });
+
+  it('should refuse to acquire resources synchronously', () => {
+    const module = new ModuleDef()
+      .make(Connection).from().resource(
+        Lifecycle.pure(new Connection('db://sync'))
+      );
+
+    const injector = new Injector();
+
+    expect(() => injector.produce(module, [DIKey.of(Connection)])).toThrow(/produceAsync/);
+  });
+});
+
+describe('Injector.produceRun', () => {
+  class Connection {
+    open = true;
+  }
+
+  class Cache {}
+
+  const trackedConnection = (log: string[]) =>
+    Lifecycle.make(
+      () => {
+        log.push('acquire');
+        return new Connection();
+      },
+      (conn) => {
+        log.push('release');
+        conn.open = false;
+      }
+    );
+
+  it('should run the function and close the locator afterwards', async () => {
+    const log: string[] = [];
+    const module = new ModuleDef()
+      .make(Connection).from().resource(trackedConnection(log));
+
+    const injector = new Injector();
+    const result = await injector.produceRun(module, [DIKey.of(Connection)], async (locator) => {
+      const conn = locator.get(DIKey.of(Connection));
+      log.push(`use: ${conn.open}`);
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(log).toEqual(['acquire', 'use: true', 'release']);
+  });
+
+  it('should close the locator when the function throws', async () => {
+    const log: string[] = [];
+    const module = new ModuleDef()
+      .make(Connection).from().resource(trackedConnection(log));
+
+    const injector = new Injector();
+
+    await expect(
+      injector.produceRun(module, [DIKey.of(Connection)], () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect(log).toEqual(['acquire', 'release']);
+  });
+
+  it('should release acquired resources when production fails halfway', async () => {
+    const log: string[] = [];
+    const module = new ModuleDef()
+      .make(Connection).from().resource(trackedConnection(log))
+      .make(Cache).from().func([Connection], async () => {
+        throw new Error('cache failed');
+      });
+
+    const injector = new Injector();
+    let ran = false;
+
+    await expect(
+      injector.produceRun(module, [DIKey.of(Cache)], () => {
+        ran = true;
+      })
+    ).rejects.toThrow('cache failed');
+
+    expect(ran).toBe(false);
+    expect(log).toEqual(['acquire', 'release']);
+  });
+
+  it('should report release errors next to the original failure', async () => {
+    const module = new ModuleDef()
+      .make(Connection).from().resource(
+        Lifecycle.make(
+          () => new Connection(),
+          () => {
+            throw new Error('release failed');
+          }
+        )
+      );
+
+    const injector = new Injector();
+
+    try {
+      await injector.produceRun(module, [DIKey.of(Connection)], () => {
+        throw new Error('use failed');
+      });
+      expect.fail('Should have thrown');
+    } catch (error) {
+      expect(error).toBeInstanceOf(AggregateError);
+      const [original, release] = (error as AggregateError).errors;
+      expect((original as Error).message).toBe('use failed');
+      expect(release).toBeInstanceOf(AggregateLifecycleError);
+      expect((release as AggregateLifecycleError).errors[0].message).toBe('release failed');
+    }
+  });
+
+  it('should support Locator.use directly', async () => {
+    const log: string[] = [];
+    const module = new ModuleDef()
+      .make(Connection).from().resource(trackedConnection(log));
+
+    const injector = new Injector();
+    const locator = await injector.produceAsync(module, [DIKey.of(Connection)]);
+    const open = await locator.use((l) => l.get(DIKey.of(Connection)).open);
+
+    expect(open).toBe(true);
+    expect(log).toEqual(['acquire', 'release']);
+  });
+});
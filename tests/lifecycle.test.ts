@@ -168,6 +168,180 @@ describe('Lifecycle', () => {
     });
   });
 
+  describe('Composition', () => {
+    const tracked = <T>(name: string, value: T, log: string[]) =>
+      Lifecycle.make(
+        () => {
+          log.push(`acquire-${name}`);
+          return value;
+        },
+        () => {
+          log.push(`release-${name}`);
+        }
+      );
+
+    it('should release the underlying resource of a mapped lifecycle', async () => {
+      const log: string[] = [];
+
+      const mapped = tracked('conn', 'conn', log).map((conn) => `pool(${conn})`);
+
+      const result = await mapped.use((pool) => {
+        log.push(`use: ${pool}`);
+        return pool;
+      });
+
+      expect(result).toBe('pool(conn)');
+      expect(log).toEqual(['acquire-conn', 'use: pool(conn)', 'release-conn']);
+    });
+
+    it('should release inner and outer resources of flatMap in reverse order', async () => {
+      const log: string[] = [];
+
+      const chained = tracked('conn', 'conn', log)
+        .flatMap((conn) => tracked('pool', `pool(${conn})`, log));
+
+      const pool = await chained.acquire();
+      expect(pool).toBe('pool(conn)');
+      expect(log).toEqual(['acquire-conn', 'acquire-pool']);
+
+      await chained.release(pool);
+      expect(log).toEqual(['acquire-conn', 'acquire-pool', 'release-pool', 'release-conn']);
+    });
+
+    it('should release the outer resource when the inner acquisition fails', async () => {
+      const log: string[] = [];
+
+      const chained = tracked('conn', 'conn', log).flatMap(() =>
+        Lifecycle.make(
+          () => {
+            throw new Error('pool failed');
+          },
+          () => {}
+        )
+      );
+
+      await expect(chained.use(() => 'never')).rejects.toThrow('pool failed');
+      expect(log).toEqual(['acquire-conn', 'release-conn']);
+    });
+
+    it('should track every acquisition of the same composite lifecycle', async () => {
+      const released: number[] = [];
+      let counter = 0;
+
+      const composite = Lifecycle.make(
+        () => ++counter,
+        (n) => {
+          released.push(n);
+        }
+      ).map((n) => ({ n }));
+
+      const first = await composite.acquire();
+      const second = await composite.acquire();
+
+      await composite.release(first);
+      await composite.release(second);
+
+      expect(released).toEqual([1, 2]);
+    });
+
+    it('should release its own acquisition when composite resources are equal', async () => {
+      const released: number[] = [];
+      let counter = 0;
+
+      const composite = Lifecycle.make(
+        () => ++counter,
+        (n) => {
+          released.push(n);
+        }
+      ).map(() => undefined);
+
+      let finishFirst!: () => void;
+      let finishSecond!: () => void;
+      const first = composite.use(() => new Promise<void>(resolve => { finishFirst = resolve; }));
+      const second = composite.use(() => new Promise<void>(resolve => { finishSecond = resolve; }));
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      finishFirst();
+      await first;
+      expect(released).toEqual([1]);
+
+      finishSecond();
+      await second;
+      expect(released).toEqual([1, 2]);
+    });
+
+    it('should run evalTap after acquisition and keep the resource', async () => {
+      const log: string[] = [];
+
+      const tapped = tracked('conn', 'conn', log).evalTap(async (conn) => {
+        log.push(`tap: ${conn}`);
+      });
+
+      const result = await tapped.use((conn) => conn);
+
+      expect(result).toBe('conn');
+      expect(log).toEqual(['acquire-conn', 'tap: conn', 'release-conn']);
+    });
+
+    it('should release the resource when evalTap fails', async () => {
+      const log: string[] = [];
+
+      const tapped = tracked('conn', 'conn', log).evalTap(() => {
+        throw new Error('health check failed');
+      });
+
+      await expect(tapped.use(() => 'never')).rejects.toThrow('health check failed');
+      expect(log).toEqual(['acquire-conn', 'release-conn']);
+    });
+
+    it('should acquire resources in parallel with Lifecycle.all', async () => {
+      const log: string[] = [];
+      let active = 0;
+      let maxActive = 0;
+
+      const slow = <T>(name: string, value: T) =>
+        Lifecycle.make(
+          async () => {
+            active++;
+            maxActive = Math.max(maxActive, active);
+            await new Promise(resolve => setTimeout(resolve, 10));
+            active--;
+            log.push(`acquire-${name}`);
+            return value;
+          },
+          () => {
+            log.push(`release-${name}`);
+          }
+        );
+
+      const all = Lifecycle.all(slow('db', 'db'), slow('cache', 42));
+
+      const result = await all.use(([db, cache]) => `${db}:${cache}`);
+
+      expect(result).toBe('db:42');
+      expect(maxActive).toBe(2);
+      expect(log.filter(l => l.startsWith('release'))).toHaveLength(2);
+    });
+
+    it('should release acquired resources when one of Lifecycle.both fails', async () => {
+      const log: string[] = [];
+
+      const both = Lifecycle.both(
+        tracked('db', 'db', log),
+        Lifecycle.make(
+          async () => {
+            await new Promise(resolve => setTimeout(resolve, 5));
+            throw new Error('cache failed');
+          },
+          () => {}
+        )
+      );
+
+      await expect(both.use(() => 'never')).rejects.toThrow('cache failed');
+      expect(log).toEqual(['acquire-db', 'release-db']);
+    });
+  });
+
   describe('Real-world example: Database Connection', () => {
     class DatabaseConnection {
       constructor(
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Injector,
+  ModuleDef,
+  DIKey,
+  Reflected,
+  createSubcontext,
+} from '../src/distage';
+
+describe('Locator Keys', () => {
+  class Config {}
+
+  @Reflected(Config)
+  class Service {
+    constructor(public readonly config: Config) {}
+  }
+
+  class Plugin {}
+
+  class RequestId {
+    constructor(public readonly value: string) {}
+  }
+
+  const module = new ModuleDef()
+    .make(Config).from().value(new Config())
+    .make(Config).named('backup').from().value(new Config())
+    .make(Service).from().type(Service)
+    .many(Plugin).from().value(new Plugin());
+
+  const roots = [DIKey.of(Service), DIKey.named(Config, 'backup'), DIKey.set(Plugin)];
+
+  it('should return the real keys of the instances', () => {
+    const locator = new Injector().produce(module, roots);
+    const keys = Array.from(locator.keys());
+
+    expect(keys.map(k => k.toString()).sort()).toEqual([
+      'Set<f:Plugin>',
+      'f:Config',
+      'f:Config@Id("backup")',
+      'f:Service',
+    ]);
+    expect(keys.some(k => k.equals(DIKey.of(Service)))).toBe(true);
+    expect(keys.find(k => k.id === 'backup')?.getCallable()).toBe(Config);
+
+    for (const key of keys) {
+      expect(locator.get(key)).toBeDefined();
+    }
+  });
+
+  it('should return the keys with their instances', () => {
+    const locator = new Injector().produce(module, roots);
+
+    for (const [key, instance] of locator.entries()) {
+      expect(locator.get(key)).toBe(instance);
+    }
+    expect(Array.from(locator.entries())).toHaveLength(4);
+  });
+
+  it('should return every instance of a type under any @Id', () => {
+    const locator = new Injector().produce(module, roots);
+    const configs = locator.instancesOf(Config);
+
+    expect(configs.map(([key]) => key.toString()).sort()).toEqual(['f:Config', 'f:Config@Id("backup")']);
+    for (const [key, instance] of configs) {
+      expect(instance).toBeInstanceOf(Config);
+      expect(locator.get(key)).toBe(instance);
+    }
+    expect(locator.instancesOf(Plugin)).toEqual([]);
+  });
+
+  it('should return usable keys from subcontexts', () => {
+    const parent = new Injector().produce(module, roots);
+    const child = createSubcontext(
+      parent,
+      new ModuleDef()
+        .make(RequestId).from().value(new RequestId('req-1'))
+        .make(Config).from().value(new Config()),
+      [DIKey.of(RequestId), DIKey.of(Config)],
+    );
+
+    const keys = Array.from(child.keys());
+    expect(keys.map(k => k.toString()).sort()).toEqual([
+      'Set<f:Plugin>',
+      'f:Config',
+      'f:Config@Id("backup")',
+      'f:RequestId',
+      'f:Service',
+    ]);
+    for (const [key, instance] of child.entries()) {
+      expect(child.get(key)).toBe(instance);
+    }
+
+    const [[, config]] = child.instancesOf(Config).filter(([key]) => key.id === undefined);
+    expect(config).toBe(child.get(DIKey.of(Config)));
+    expect(config).not.toBe(parent.get(DIKey.of(Config)));
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Injector,
+  ModuleDef,
+  DIKey,
+  Axis,
+  AxisPoint,
+  Activation,
+  MissingDependencyError,
+} from '../src/distage';
+
+describe('Missing Binding Suggestions', () => {
+  class Database {}
+  class Databse {}
+  class Cache {}
+
+  function planError(module: ModuleDef, root: DIKey, activation?: Activation): MissingDependencyError {
+    try {
+      new Injector().plan(module, [root], { activation });
+    } catch (error) {
+      expect(error).toBeInstanceOf(MissingDependencyError);
+      return error as MissingDependencyError;
+    }
+    throw new Error('Expected planning to fail');
+  }
+
+  it('should suggest the same type with a different @Id', () => {
+    const module = new ModuleDef()
+      .make(Database).named('replica').from().value(new Database());
+
+    const error = planError(module, DIKey.named(Database, 'primary'));
+    expect(error.suggestions).toHaveLength(1);
+    expect(error.suggestions[0]).toMatch(/^f:Database@Id\("replica"\): same type with a different @Id/);
+    expect(error.message).toContain('Did you mean:\n  - f:Database@Id("replica")');
+  });
+
+  it('should suggest the same @Id with a different type', () => {
+    const module = new ModuleDef()
+      .make(Cache).named('primary').from().value(new Cache());
+
+    const error = planError(module, DIKey.named(Database, 'primary'));
+    expect(error.suggestions[0]).toMatch(/^f:Cache@Id\("primary"\): same @Id with a different type/);
+  });
+
+  it('should suggest types and tokens with similar names', () => {
+    const module = new ModuleDef()
+      .make(Databse).from().value(new Databse())
+      .make(Symbol('ILoger')).from().value(console);
+
+    expect(planError(module, DIKey.of(Database)).suggestions).toEqual([
+      expect.stringMatching(/^f:Databse: similar name/),
+    ]);
+    expect(planError(module, DIKey.token(Symbol('ILogger'))).suggestions).toEqual([
+      expect.stringMatching(/^token:ILoger: similar name/),
+    ]);
+  });
+
+  it('should name the axis choice that enables a filtered out binding', () => {
+    const Env = Axis.of('Env', ['Prod', 'Test']);
+    const Region = Axis.of('Region', ['EU', 'US']);
+
+    const module = new ModuleDef()
+      .make(Database).tagged(Env, 'Test').from().value(new Database())
+      .make(Database).tagged(Env, 'Prod').tagged(Region, 'US').from().value(new Database());
+
+    const error = planError(module, DIKey.of(Database), Activation.of(AxisPoint.of(Env, 'Prod')));
+    expect(error.suggestions).toEqual([
+      expect.stringMatching(/^f:Database \[Env:Test\]: filtered out by the activation, enabled by Env:Test \(currently Env:Prod\)/),
+      expect.stringMatching(/^f:Database \[Env:Prod, Region:US\]: filtered out by the activation, enabled by Region:US/),
+    ]);
+  });
+
+  it('should not suggest unrelated bindings', () => {
+    const module = new ModuleDef()
+      .make(Cache).from().value(new Cache());
+
+    const error = planError(module, DIKey.of(Database));
+    expect(error.suggestions).toEqual([]);
+    expect(error.message).not.toContain('Did you mean');
+  });
+});
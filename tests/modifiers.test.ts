@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Injector,
+  ModuleDef,
+  DIKey,
+  Reflected,
+  Axis,
+  AxisPoint,
+  Activation,
+  MissingDependencyError,
+  CircularDependencyError,
+  createSubcontext,
+} from '../src/distage';
+
+describe('Modifiers', () => {
+  class Metrics {
+    readonly calls: string[] = [];
+  }
+
+  abstract class Greeter {
+    abstract greet(name: string): string;
+  }
+
+  class PlainGreeter extends Greeter {
+    greet(name: string): string {
+      return `Hello, ${name}`;
+    }
+  }
+
+  class MeteredGreeter extends Greeter {
+    constructor(private readonly inner: Greeter, private readonly metrics: Metrics) {
+      super();
+    }
+
+    greet(name: string): string {
+      this.metrics.calls.push(name);
+      return this.inner.greet(name);
+    }
+  }
+
+  @Reflected(Greeter)
+  class Welcome {
+    constructor(public readonly greeter: Greeter) {}
+  }
+
+  const module = new ModuleDef()
+    .make(Metrics).from().type(Metrics)
+    .make(Greeter).from().type(PlainGreeter)
+    .make(Welcome).from().type(Welcome)
+    .modify(Greeter).with([Metrics], (greeter, metrics) => new MeteredGreeter(greeter, metrics));
+
+  it('should give dependents the modified value', () => {
+    const locator = new Injector().produce(module, [DIKey.of(Welcome)]);
+    const welcome = locator.get(DIKey.of(Welcome));
+
+    expect(welcome.greeter).toBeInstanceOf(MeteredGreeter);
+    expect(welcome.greeter).toBe(locator.get(DIKey.of(Greeter)));
+    expect(welcome.greeter.greet('alice')).toBe('Hello, alice');
+    expect(locator.get(DIKey.of(Metrics)).calls).toEqual(['alice']);
+  });
+
+  it('should plan the binding and each modifier as separate steps', () => {
+    const plan = new Injector().plan(module, [DIKey.of(Welcome)]);
+
+    expect(plan.getSteps().map(step => step.key.toString()))
+      .toEqual(['Modified<f:Greeter, 0>', 'f:Metrics', 'f:Greeter', 'f:Welcome']);
+    expect(plan.getStep(DIKey.of(Greeter))!.dependencies.map(k => k.toString()))
+      .toEqual(['Modified<f:Greeter, 0>', 'f:Metrics']);
+    expect(plan.toString()).toContain('f:Greeter <- [Modified<f:Greeter, 0>, f:Metrics]');
+  });
+
+  it('should apply modifiers in module composition order, across overrides', () => {
+    const applied: string[] = [];
+    const tracing = new ModuleDef()
+      .modify(Greeter).by(greeter => { applied.push('tracing'); return greeter; });
+    const caching = new ModuleDef()
+      .modify(Greeter).by(greeter => { applied.push('caching'); return greeter; });
+
+    class TestGreeter extends Greeter {
+      greet(name: string): string {
+        return `Hi, ${name}`;
+      }
+    }
+    const composed = module
+      .append(tracing)
+      .overriddenBy(new ModuleDef().make(Greeter).from().type(TestGreeter))
+      .append(caching);
+
+    const plan = new Injector().plan(composed, [DIKey.of(Greeter)]);
+    expect(plan.getSteps().map(step => step.key.toString())).toEqual([
+      'Modified<f:Greeter, 0>',
+      'f:Metrics',
+      'Modified<f:Greeter, 1>',
+      'Modified<f:Greeter, 2>',
+      'f:Greeter',
+    ]);
+
+    const greeter = new Injector().produceByType(composed, Greeter);
+    expect(applied).toEqual(['tracing', 'caching']);
+    expect(greeter.greet('bob')).toBe('Hi, bob');
+  });
+
+  it('should only apply modifiers valid under the activation', () => {
+    const Env = Axis.of('Env', ['Prod', 'Test']);
+    const tagged = new ModuleDef()
+      .make(String).named('greeting').from().value('Hello')
+      .modify(String).named('greeting').tagged(Env, 'Test').by(greeting => `${greeting} (test)`);
+
+    const greeting = (env: string) => new Injector().produceOne(tagged, DIKey.named(String, 'greeting'), {
+      activation: Activation.of(AxisPoint.of(Env, env)),
+    });
+    expect(greeting('Test')).toBe('Hello (test)');
+    expect(greeting('Prod')).toBe('Hello');
+  });
+
+  it('should apply async modifiers in asynchronous production', async () => {
+    const asyncModule = module
+      .modify(Metrics).by(async metrics => { metrics.calls.push('started'); return metrics; });
+
+    const locator = await new Injector().produceAsync(asyncModule, [DIKey.of(Welcome)]);
+    locator.get(DIKey.of(Welcome)).greeter.greet('carol');
+    expect(locator.get(DIKey.of(Metrics)).calls).toEqual(['started', 'carol']);
+  });
+
+  it('should report missing dependencies of modifiers at planning time', () => {
+    class Tracer {}
+    const untraced = module.modify(Greeter).with([Tracer], greeter => greeter);
+
+    expect(() => new Injector().plan(untraced, [DIKey.of(Welcome)])).toThrow(MissingDependencyError);
+  });
+
+  it('should detect cycles through modifier dependencies', () => {
+    @Reflected(Greeter)
+    class Audit {
+      constructor(public readonly greeter: Greeter) {}
+    }
+
+    const cyclic = new ModuleDef()
+      .make(Greeter).from().type(PlainGreeter)
+      .make(Audit).from().type(Audit)
+      .modify(Greeter).with([Audit], greeter => greeter);
+
+    expect(() => new Injector().plan(cyclic, [DIKey.of(Greeter)])).toThrow(CircularDependencyError);
+
+    // The modified key can't be proxied, its dependency can
+    const locator = new Injector().produce(cyclic, [DIKey.of(Greeter)], { cycles: 'proxy' });
+    expect(locator.get(DIKey.of(Audit)).greeter).toBe(locator.get(DIKey.of(Greeter)));
+  });
+
+  it('should not list the values before modification in the locator', () => {
+    const metered = new ModuleDef()
+      .make(Metrics).from().type(Metrics)
+      .make(Greeter).from().type(PlainGreeter)
+      .modify(Greeter).with([Metrics], (greeter, metrics) => new MeteredGreeter(greeter, metrics));
+    const locator = new Injector().produce(metered, [DIKey.of(Greeter)]);
+    const greeter = locator.get(DIKey.of(Greeter));
+
+    expect(Array.from(locator.keys(), key => key.toString())).not.toContain('Modified<f:Greeter, 0>');
+    expect(Array.from(locator.entries(), ([, instance]) => instance)).not.toContainEqual(expect.any(PlainGreeter));
+    expect(locator.findAllAssignableTo(Greeter)).toEqual([greeter]);
+  });
+
+  it('should apply modifiers of a subcontext to the value of the parent', () => {
+    const parent = new Injector().produce(new ModuleDef().make(Greeter).from().type(PlainGreeter), [DIKey.of(Greeter)]);
+    const child = createSubcontext(
+      parent,
+      new ModuleDef().modify(Greeter).by(greeter => ({ greet: (name: string) => `${greeter.greet(name)}!` })),
+      [DIKey.of(Greeter)],
+    );
+
+    expect(child.get(DIKey.of(Greeter)).greet('dave')).toBe('Hello, dave!');
+    expect(parent.get(DIKey.of(Greeter)).greet('dave')).toBe('Hello, dave');
+  });
+});
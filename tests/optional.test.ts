@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Injector,
+  ModuleDef,
+  DIKey,
+  Functoid,
+  Axis,
+  AxisPoint,
+  Activation,
+  MissingDependencyError,
+  Optional,
+  Reflected,
+  Id,
+} from '../src/distage';
+
+describe('Optional Dependencies', () => {
+  const Env = Axis.of('Env', ['Prod', 'Test']);
+
+  class Config {}
+  class Metrics {}
+
+  @Reflected(Config, Optional(Metrics))
+  class Service {
+    constructor(
+      public readonly config: Config,
+      public readonly metrics: Metrics | undefined,
+    ) {}
+  }
+
+  const base = new ModuleDef()
+    .make(Config).from().value(new Config())
+    .make(Service).from().type(Service);
+
+  it('should resolve to undefined when nothing is bound', () => {
+    const service = new Injector().produceByType(base, Service);
+    expect(service.config).toBeInstanceOf(Config);
+    expect(service.metrics).toBeUndefined();
+  });
+
+  it('should resolve to the instance when a binding exists', () => {
+    const metrics = new Metrics();
+    const module = base.append(new ModuleDef().make(Metrics).from().value(metrics));
+
+    expect(new Injector().produceByType(module, Service).metrics).toBe(metrics);
+  });
+
+  it('should be usable in .func() and Functoid.withDependencies()', () => {
+    const module = new ModuleDef()
+      .make(Config).from().func([Optional(Metrics)], (metrics) => {
+        expect(metrics).toBeUndefined();
+        return new Config();
+      })
+      .make(Service).from().factory(
+        new Functoid((config: Config, metrics?: Metrics) => new Service(config, metrics))
+          .withDependencies([DIKey.of(Config), DIKey.optional(Metrics)]),
+      );
+
+    expect(new Injector().produceByType(module, Service).metrics).toBeUndefined();
+  });
+
+  it('should combine with @Id', () => {
+    @Reflected(Optional(Metrics))
+    class Reporter {
+      constructor(@Id('primary') public readonly metrics: Metrics | undefined) {}
+    }
+
+    const metrics = new Metrics();
+    const module = new ModuleDef()
+      .make(Metrics).from().value(new Metrics())
+      .make(Metrics).named('primary').from().value(metrics)
+      .make(Reporter).from().type(Reporter);
+
+    expect(new Injector().produceByType(module, Reporter).metrics).toBe(metrics);
+  });
+
+  it('should show absent keys in the plan', () => {
+    const plan = new Injector().plan(base, [DIKey.of(Service)]);
+
+    expect(plan.has(DIKey.of(Metrics))).toBe(false);
+    expect(plan.isAbsent(DIKey.of(Metrics))).toBe(true);
+    expect(plan.getAbsentKeys().map(k => k.toString())).toEqual(['f:Metrics']);
+    expect(plan.toString()).toContain('  f:Metrics <- absent');
+    expect(plan.toDot()).toContain('f:Metrics\\n(absent)');
+  });
+
+  it('should treat bindings filtered out by the activation as absent', () => {
+    const module = base.append(new ModuleDef().make(Metrics).tagged(Env, 'Prod').from().value(new Metrics()));
+
+    const test = new Injector().produceByType(module, Service, {
+      activation: Activation.of(AxisPoint.of(Env, 'Test')),
+    });
+    expect(test.metrics).toBeUndefined();
+
+    const prod = new Injector().produceByType(module, Service, {
+      activation: Activation.of(AxisPoint.of(Env, 'Prod')),
+    });
+    expect(prod.metrics).toBeInstanceOf(Metrics);
+  });
+
+  it('should still fail for a required dependency on an absent key', () => {
+    @Reflected(Metrics)
+    class Dashboard {
+      constructor(public readonly metrics: Metrics) {}
+    }
+
+    const module = base.append(new ModuleDef().make(Dashboard).from().type(Dashboard));
+
+    expect(() => new Injector().plan(module, [DIKey.of(Service), DIKey.of(Dashboard)]))
+      .toThrow(MissingDependencyError);
+  });
+
+  it('should resolve absent dependencies in async production', async () => {
+    const module = new ModuleDef()
+      .make(Config).from().func([], async () => new Config())
+      .make(Service).from().type(Service);
+
+    const locator = await new Injector().produceAsync(module, [DIKey.of(Service)]);
+    expect(locator.get(DIKey.of(Service)).metrics).toBeUndefined();
+  });
+});
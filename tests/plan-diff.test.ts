@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Injector,
+  ModuleDef,
+  DIKey,
+  Axis,
+  AxisPoint,
+  Activation,
+  Reflected,
+  Functoid,
+} from '../src/distage';
+
+describe('Plan Diff', () => {
+  const Env = Axis.of('Env', ['Prod', 'Test']);
+
+  class Config {}
+  class Metrics {}
+
+  abstract class Database {}
+
+  @Reflected(Config)
+  class PostgresDatabase extends Database {
+    constructor(public readonly config: Config) {
+      super();
+    }
+  }
+
+  class InMemoryDatabase extends Database {}
+
+  @Reflected(Database)
+  class App {
+    constructor(public readonly db: Database) {}
+  }
+
+  const config = new Config();
+
+  const buildModule = () => new ModuleDef()
+    .make(Config).from().value(config)
+    .make(Metrics).from().factory(() => new Metrics())
+    .make(Database as any).tagged(Env, 'Prod').from().type(PostgresDatabase)
+    .make(Database as any).tagged(Env, 'Test').from().type(InMemoryDatabase)
+    .make(App).from().type(App);
+
+  const planFor = (module: ModuleDef, env: string, roots: DIKey[] = [DIKey.of(App)]) =>
+    new Injector().plan(module, roots, { activation: Activation.of(AxisPoint.of(Env, env)) });
+
+  it('should report no difference for the same module and activation', () => {
+    const diff = planFor(buildModule(), 'Test').diff(planFor(buildModule(), 'Test'));
+    expect(diff.isEmpty()).toBe(true);
+    expect(diff.toString()).toBe('Plans are identical');
+  });
+
+  it('should compare separately built modules by what their bindings construct', () => {
+    const diff = planFor(buildModule(), 'Prod').diff(planFor(buildModule(), 'Prod'));
+    expect(diff.isEmpty()).toBe(true);
+  });
+
+  it('should tell apart factory functions with the same source', () => {
+    const roots = [DIKey.of(Metrics)];
+    const diff = planFor(buildModule(), 'Prod', roots).diff(planFor(buildModule(), 'Prod', roots));
+
+    expect(diff.changed.map(c => [c.key.toString(), c.reasons, c.notes])).toEqual([
+      ['f:Metrics', ['binding'], ['source identical']],
+    ]);
+    expect(diff.toString()).toBe('~ f:Metrics: Factory -> Factory (binding; source identical)');
+  });
+
+  it('should report steps changed between activations', () => {
+    const module = buildModule();
+    const diff = planFor(module, 'Test').diff(planFor(module, 'Prod'));
+
+    expect(diff.changed).toHaveLength(1);
+    const [change] = diff.changed;
+    expect(change.key.equals(DIKey.of(Database))).toBe(true);
+    expect(change.reasons).toEqual(['binding', 'dependencies', 'tags']);
+  });
+
+  it('should report added and removed steps', () => {
+    const module = buildModule();
+    const diff = planFor(module, 'Test').diff(planFor(module, 'Prod'));
+
+    expect(diff.added.map(s => s.key.toString())).toEqual(['f:Config']);
+    expect(diff.removed).toEqual([]);
+
+    const reversed = planFor(module, 'Prod').diff(planFor(module, 'Test'));
+    expect(reversed.added).toEqual([]);
+    expect(reversed.removed.map(s => s.key.toString())).toEqual(['f:Config']);
+  });
+
+  it('should detect a different instance for the same key', () => {
+    const other = new ModuleDef()
+      .make(Config).from().value(new Config())
+      .make(Database as any).from().type(PostgresDatabase);
+
+    const before = new Injector().plan(buildModule(), [DIKey.of(Config)]);
+    const after = new Injector().plan(other, [DIKey.of(Config)]);
+
+    expect(before.diff(after).changed.map(c => c.reasons)).toEqual([['binding']]);
+  });
+
+  it('should report dependencies that became optional or lazy', () => {
+    class Service {}
+    const build = () => new Service();
+    const planWith = (dependency: DIKey) => new Injector().plan(
+      new ModuleDef()
+        .make(Config).from().value(config)
+        .make(Service).from().functoid(new Functoid(build).withDependencies([dependency])),
+      [DIKey.of(Service)],
+    );
+
+    const required = planWith(DIKey.of(Config));
+    expect(required.diff(planWith(DIKey.of(Config))).isEmpty()).toBe(true);
+    expect(required.diff(planWith(DIKey.optional(Config))).changed.map(c => [c.key.toString(), c.reasons]))
+      .toEqual([['f:Service', ['dependencies']]]);
+    expect(required.diff(planWith(DIKey.lazy(Config))).changed.map(c => [c.key.toString(), c.reasons]))
+      .toEqual([['f:Service', ['dependencies']]]);
+  });
+
+  it('should describe the difference', () => {
+    const module = buildModule();
+    const diff = planFor(module, 'Test').diff(planFor(module, 'Prod'));
+
+    expect(diff.toString()).toBe([
+      '+ f:Config: Instance',
+      '~ f:Database: Class InMemoryDatabase -> Class PostgresDatabase (binding, dependencies, tags)',
+    ].join('\n'));
+  });
+});
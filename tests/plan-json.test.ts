@@ -0,0 +1,211 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Injector,
+  ModuleDef,
+  DIKey,
+  Axis,
+  AxisPoint,
+  Activation,
+  BindingKind,
+  PlanDescription,
+  PLAN_JSON_VERSION,
+  Reflected,
+  Optional,
+  Lazy,
+} from '../src/distage';
+
+describe('Plan JSON', () => {
+  const Env = Axis.of('Env', ['Prod', 'Test']);
+  const ILogger = Symbol('ILogger');
+
+  class Config {}
+
+  abstract class Database {}
+
+  @Reflected(Config)
+  class PostgresDatabase extends Database {
+    constructor(public readonly config: Config) {
+      super();
+    }
+  }
+
+  class Plugin {}
+
+  @Reflected(Database, String)
+  class UserService {
+    constructor(
+      public readonly db: Database,
+      public readonly name: string,
+    ) {}
+  }
+
+  const module = new ModuleDef()
+    .make(Config).from().value(new Config())
+    .make(Database as any).tagged(Env, 'Prod').from().type(PostgresDatabase)
+    .make(String).from().value('users')
+    .make(UserService).from().type(UserService)
+    .make(ILogger).from().value(console)
+    .make(Plugin).named('main').from().alias(Plugin)
+    .make(Plugin).from().value(new Plugin())
+    .many(Plugin).makeWeak().from().value(new Plugin());
+
+  const plan = new Injector().plan(
+    module,
+    [DIKey.of(UserService), DIKey.token(ILogger), DIKey.named(Plugin, 'main'), DIKey.set(Plugin)],
+    { activation: Activation.of(AxisPoint.of(Env, 'Prod')) },
+  );
+
+  const json = plan.toJSON();
+
+  it('should describe roots and steps in execution order', () => {
+    expect(json.version).toBe(PLAN_JSON_VERSION);
+    expect(json.roots.map(r => r.repr)).toEqual([
+      'f:UserService',
+      'token:ILogger',
+      'f:Plugin@Id("main")',
+      'Set<f:Plugin>',
+    ]);
+
+    const order = json.steps.map(s => s.key.repr);
+    expect(order.indexOf('f:Config')).toBeLessThan(order.indexOf('f:Database'));
+    expect(order.indexOf('f:Database')).toBeLessThan(order.indexOf('f:UserService'));
+  });
+
+  it('should describe keys with their type tags', () => {
+    const service = json.steps.find(s => s.key.repr === 'f:UserService')!;
+    expect(service.dependencies).toEqual([
+      { repr: 'f:Database', ref: 'f:Database', type: { kind: 'callable', name: 'Database' } },
+      { repr: 'f:String', ref: 'f:String', type: { kind: 'callable', name: 'String' } },
+    ]);
+
+    expect(json.roots[1].type).toEqual({ kind: 'token', description: 'ILogger' });
+    expect(json.roots[2]).toMatchObject({ id: 'main', type: { kind: 'callable', name: 'Plugin' } });
+    expect(json.roots[3].type).toEqual({ kind: 'set', element: { kind: 'callable', name: 'Plugin' } });
+  });
+
+  it('should describe binding kinds, tags and kind-specific details', () => {
+    const database = json.steps.find(s => s.key.repr === 'f:Database')!;
+    expect(database.bindings).toEqual([
+      {
+        kind: BindingKind.Class,
+        key: { repr: 'f:Database', ref: 'f:Database', type: { kind: 'callable', name: 'Database' } },
+        tags: { Env: 'Prod' },
+        origin: {
+          file: expect.stringContaining('plan-json.test.ts'),
+          line: expect.any(Number),
+          column: expect.any(Number),
+        },
+      },
+    ]);
+
+    const alias = json.steps.find(s => s.key.repr === 'f:Plugin@Id("main")')!;
+    expect(alias.bindings[0].kind).toBe(BindingKind.Alias);
+    expect(alias.bindings[0].target?.repr).toBe('f:Plugin');
+
+    const set = json.steps.find(s => s.key.repr === 'Set<f:Plugin>')!;
+    expect(set.bindings[0].element).toEqual({
+      kind: BindingKind.Instance,
+      key: { repr: 'f:Plugin', ref: 'f:Plugin', type: { kind: 'callable', name: 'Plugin' } },
+      weak: true,
+    });
+  });
+
+  it('should round-trip through JSON.stringify and PlanDescription', () => {
+    const description = PlanDescription.fromJSON(JSON.stringify(plan));
+
+    expect(description.toJSON()).toEqual(json);
+    expect(description.getRoots()).toHaveLength(4);
+    expect(description.has('f:Database')).toBe(true);
+    expect(description.getStep('f:Database')?.bindings[0].tags).toEqual({ Env: 'Prod' });
+    expect(description.getDependencies('f:Database').map(d => d.repr)).toEqual(['f:Config']);
+    expect(description.getDependents('f:Database').map(d => d.repr)).toEqual(['f:UserService']);
+  });
+
+  it('should give distinct keys with the same repr distinct references', () => {
+    const makeCache = () => class Cache {};
+    const LocalCache = makeCache();
+    const SharedCache = makeCache();
+
+    @Reflected(LocalCache, SharedCache)
+    class Caches {
+      constructor(
+        public readonly local: InstanceType<typeof LocalCache>,
+        public readonly shared: InstanceType<typeof SharedCache>,
+      ) {}
+    }
+
+    const caches = new ModuleDef()
+      .make(LocalCache).from().type(LocalCache)
+      .make(SharedCache).from().type(SharedCache)
+      .make(Caches).from().type(Caches);
+    const description = PlanDescription.fromJSON(
+      JSON.stringify(new Injector().plan(caches, [DIKey.of(Caches)])),
+    );
+
+    expect(description.getSteps().map(step => [step.key.repr, step.key.ref])).toEqual([
+      ['f:Cache', 'f:Cache'],
+      ['f:Cache', 'f:Cache#2'],
+      ['f:Caches', 'f:Caches'],
+    ]);
+    expect(description.getDependencies('f:Caches').map(dep => dep.ref)).toEqual(['f:Cache', 'f:Cache#2']);
+    expect(description.getDependents('f:Cache#2').map(dep => dep.ref)).toEqual(['f:Caches']);
+  });
+
+  it('should round-trip optional and lazy dependencies, absent keys and scopes', () => {
+    class Metrics {}
+    class Clock {}
+
+    @Reflected(Optional(Metrics), Lazy(Config), Optional(Clock))
+    class Handler {
+      constructor(
+        public readonly metrics: Metrics | undefined,
+        public readonly config: () => Config,
+        public readonly clock: Clock | undefined,
+      ) {}
+    }
+
+    const handlers = new ModuleDef()
+      .make(Config).from().value(new Config())
+      .make(Clock).from().value(new Clock())
+      .make(Handler).scoped('transient').from().type(Handler);
+    const handlerPlan = new Injector().plan(handlers, [DIKey.of(Handler)]);
+    const description = PlanDescription.fromJSON(JSON.stringify(handlerPlan));
+
+    expect(description.toJSON()).toEqual(handlerPlan.toJSON());
+    expect(description.getDependencies('f:Handler').map(dep => [dep.ref, dep.modifier])).toEqual([
+      ['f:Metrics', 'optional'],
+      ['f:Config', 'lazy'],
+      ['f:Clock', 'optional'],
+    ]);
+    expect(description.getAbsentKeys().map(key => key.ref)).toEqual(['f:Metrics']);
+    expect(description.getStep('f:Handler')?.scope).toBe('transient');
+    expect(description.getStep('f:Config')?.scope).toBe('singleton');
+    expect(description.getStep('f:Config')?.key.modifier).toBeUndefined();
+  });
+
+  it('should reject values that do not follow the schema', () => {
+    expect(() => PlanDescription.fromJSON({ version: 99, roots: [], steps: [] }))
+      .toThrow('unsupported version');
+    expect(() => PlanDescription.fromJSON({ version: PLAN_JSON_VERSION, roots: [], steps: [] }))
+      .toThrow('expected "roots", "steps" and "absent" arrays');
+    const key = { repr: 'f:A', ref: 'f:A', type: { kind: 'callable', name: 'A' } };
+    expect(() => PlanDescription.fromJSON({
+      version: PLAN_JSON_VERSION,
+      roots: [],
+      steps: [{ key, bindings: [], dependencies: [42], scope: 'singleton' }],
+      absent: [],
+    })).toThrow('steps[0].dependencies[0] is not a key');
+    expect(() => PlanDescription.fromJSON({
+      version: PLAN_JSON_VERSION,
+      roots: [],
+      steps: [{ key, bindings: [], dependencies: [{ ...key, modifier: 'eager' }], scope: 'singleton' }],
+      absent: [],
+    })).toThrow('steps[0].dependencies[0] is not a key');
+    expect(() => PlanDescription.fromJSON({
+      version: PLAN_JSON_VERSION,
+      roots: [],
+      steps: [{ key, bindings: [], dependencies: [] }],
+      absent: [],
+    })).toThrow('steps[0] has an unknown scope undefined');
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Injector,
+  ModuleDef,
+  DIKey,
+  Axis,
+  AxisPoint,
+  Activation,
+  PlanRenderer,
+  Reflected,
+} from '../src/distage';
+
+describe('Plan rendering', () => {
+  const Env = Axis.of('Env', ['Prod', 'Test']);
+
+  class Config {}
+
+  abstract class Database {}
+
+  @Reflected(Config)
+  class PostgresDatabase extends Database {
+    constructor(public readonly config: Config) {
+      super();
+    }
+  }
+
+  class Plugin {}
+
+  @Reflected(Config)
+  class AuthPlugin extends Plugin {
+    constructor(public readonly config: Config) {
+      super();
+    }
+  }
+
+  @Reflected(Database)
+  class UserService {
+    constructor(public readonly db: Database) {}
+  }
+
+  const module = new ModuleDef()
+    .make(Config).from().value(new Config())
+    .make(Database as any).tagged(Env, 'Prod').from().type(PostgresDatabase)
+    .make(UserService).from().type(UserService)
+    .many(Plugin).from().type(AuthPlugin)
+    .many(Plugin).from().value(new Plugin());
+
+  const plan = new Injector().plan(
+    module,
+    [DIKey.of(UserService), DIKey.set(Plugin)],
+    { activation: Activation.of(AxisPoint.of(Env, 'Prod')) },
+  );
+
+  describe('toDot', () => {
+    const dot = plan.toDot();
+
+    it('should render a digraph with a node per step', () => {
+      expect(dot.startsWith('digraph Plan {')).toBe(true);
+      expect(dot.trim().endsWith('}')).toBe(true);
+      expect(dot).toContain('label="f:UserService\\nClass"');
+      expect(dot).toContain('label="f:Config\\nInstance"');
+    });
+
+    it('should include axis tags of the selected binding', () => {
+      expect(dot).toContain('label="f:Database\\nClass\\n[Env:Prod]"');
+    });
+
+    it('should highlight roots', () => {
+      const rootLines = dot.split('\n').filter(l => l.includes('fillcolor="lightyellow"'));
+      expect(rootLines).toHaveLength(2);
+      expect(rootLines.some(l => l.includes('f:UserService'))).toBe(true);
+      expect(rootLines.some(l => l.includes('Set<f:Plugin>'))).toBe(true);
+    });
+
+    it('should draw set element edges distinctly', () => {
+      const setEdges = dot.split('\n').filter(l => l.includes('style=dashed, arrowhead=odiamond'));
+      expect(setEdges).toHaveLength(2);
+      expect(dot).toContain('element of Set<f:Plugin>');
+    });
+
+    it('should be the same as PlanRenderer.toDot', () => {
+      expect(PlanRenderer.toDot(plan)).toBe(dot);
+    });
+  });
+
+  describe('toMermaid', () => {
+    const mermaid = plan.toMermaid();
+
+    it('should render a flowchart with escaped labels', () => {
+      expect(mermaid.startsWith('graph LR')).toBe(true);
+      expect(mermaid).toContain('["f:UserService<br/>Class"]');
+      expect(mermaid).toContain('Set#lt;f:Plugin#gt;');
+    });
+
+    it('should highlight roots and draw set element edges as dotted', () => {
+      expect(mermaid).toMatch(/class n\d+,n\d+ root/);
+      expect(mermaid.split('\n').filter(l => l.includes('-.->'))).toHaveLength(2);
+    });
+  });
+
+  it('should render dependencies provided by a parent locator as external nodes', () => {
+    const injector = new Injector();
+    const parent = injector.produce(module, [DIKey.of(Config)]);
+
+    const childPlan = injector.plan(
+      new ModuleDef().make(AuthPlugin).from().type(AuthPlugin),
+      [DIKey.of(AuthPlugin)],
+      { parentLocator: parent },
+    );
+
+    const dot = childPlan.toDot();
+    expect(dot).toContain('label="f:Config\\n(external)", style="dashed"');
+    expect(childPlan.toMermaid()).toContain('class x0 external');
+  });
+});
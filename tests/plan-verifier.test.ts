@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ModuleDef,
+  DIKey,
+  Axis,
+  AxisPoint,
+  Activation,
+  PlanVerifier,
+  PlanVerificationError,
+  MissingDependencyError,
+  Reflected,
+} from '../src/distage';
+
+describe('PlanVerifier', () => {
+  const Env = Axis.of('Env', ['Prod', 'Test']);
+  const Region = Axis.of('Region', ['EU', 'US']);
+  const Mode = Axis.of('Mode', ['Fast', 'Safe', 'Debug']);
+
+  class Config {}
+
+  abstract class Database {}
+
+  @Reflected(Config)
+  class PostgresDatabase extends Database {
+    constructor(public readonly config: Config) {
+      super();
+    }
+  }
+
+  class InMemoryDatabase extends Database {}
+
+  abstract class Storage {}
+  class S3Storage extends Storage {}
+  class GcsStorage extends Storage {}
+
+  @Reflected(Database)
+  class App {
+    constructor(public readonly db: Database) {}
+  }
+
+  const describeActivation = (activation: Activation) =>
+    activation.getPoints().map(p => p.toString()).sort().join(',');
+
+  it('should pass when every activation can be planned', () => {
+    const module = new ModuleDef()
+      .make(Config).from().value(new Config())
+      .make(Database as any).tagged(Env, 'Prod').from().type(PostgresDatabase)
+      .make(Database as any).tagged(Env, 'Test').from().type(InMemoryDatabase)
+      .make(App).from().type(App);
+
+    const report = new PlanVerifier().verify(module, [DIKey.of(App)], [Env, Region]);
+    expect(report.success).toBe(true);
+    expect(report.failures).toEqual([]);
+    expect(() => new PlanVerifier().assertValid(module, [DIKey.of(App)], [Env, Region])).not.toThrow();
+  });
+
+  it('should report the activation that fails and why', () => {
+    const module = new ModuleDef()
+      .make(Database as any).tagged(Env, 'Prod').from().type(PostgresDatabase)
+      .make(Database as any).tagged(Env, 'Test').from().type(InMemoryDatabase)
+      .make(App).from().type(App);
+    // Config is only needed by the Prod database and is not bound
+
+    const report = new PlanVerifier().verify(module, [DIKey.of(App)], [Env]);
+    expect(report.success).toBe(false);
+    expect(report.failures).toHaveLength(1);
+
+    const [{ activation, failure }] = report.failures;
+    expect(describeActivation(activation)).toBe('Env:Prod');
+    expect(failure.errors).toHaveLength(1);
+    expect(failure.errors[0]).toBeInstanceOf(MissingDependencyError);
+    expect((failure.errors[0] as MissingDependencyError).key.equals(DIKey.of(Config))).toBe(true);
+  });
+
+  it('should report a forgotten choice of an axis', () => {
+    const module = new ModuleDef()
+      .make(Config).from().value(new Config())
+      .make(Database as any).tagged(Env, 'Prod').from().type(PostgresDatabase)
+      .make(App).from().type(App);
+
+    const report = new PlanVerifier().verify(module, [DIKey.of(App)], [Env]);
+    expect(report.failures.map(f => describeActivation(f.activation))).toEqual(['Env:Test']);
+  });
+
+  it('should only branch on axes that affect the reached bindings', () => {
+    const module = new ModuleDef()
+      .make(Config).from().value(new Config())
+      .make(Database as any).tagged(Env, 'Prod').from().type(PostgresDatabase)
+      .make(Database as any).tagged(Env, 'Test').from().type(InMemoryDatabase)
+      .make(Storage as any).tagged(Region, 'EU').from().type(GcsStorage)
+      .make(Storage as any).tagged(Region, 'US').from().type(S3Storage)
+      .make(App).from().type(App);
+    // Storage is not reachable from App, so Region and Mode don't matter
+
+    const report = new PlanVerifier().verify(module, [DIKey.of(App)], [Mode, Region, Env]);
+    expect(report.checked.map(describeActivation)).toEqual(['Env:Prod', 'Env:Test']);
+  });
+
+  it('should branch on nested axes only under the choices that reach them', () => {
+    @Reflected(Storage)
+    class ReplicatedDatabase extends Database {
+      constructor(public readonly storage: Storage) {
+        super();
+      }
+    }
+
+    const module = new ModuleDef()
+      .make(Database as any).tagged(Env, 'Prod').from().type(ReplicatedDatabase)
+      .make(Database as any).tagged(Env, 'Test').from().type(InMemoryDatabase)
+      .make(Storage as any).tagged(Region, 'EU').from().type(GcsStorage)
+      .make(App).from().type(App);
+
+    const report = new PlanVerifier().verify(module, [DIKey.of(App)], [Env, Region]);
+    expect(report.checked.map(describeActivation)).toEqual([
+      'Env:Prod,Region:EU',
+      'Env:Prod,Region:US',
+      'Env:Test',
+    ]);
+    expect(report.failures.map(f => describeActivation(f.activation))).toEqual(['Env:Prod,Region:US']);
+  });
+
+  it('should throw a PlanVerificationError listing every failing activation', () => {
+    const module = new ModuleDef()
+      .make(App).from().type(App)
+      .make(Database as any).tagged(Env, 'Test').from().type(InMemoryDatabase);
+
+    try {
+      new PlanVerifier().assertValid(module, [DIKey.of(App)], [Env]);
+      expect.fail('Should have thrown');
+    } catch (error) {
+      expect(error).toBeInstanceOf(PlanVerificationError);
+      const err = error as PlanVerificationError;
+      expect(err.failures).toHaveLength(1);
+      expect(err.message).toContain('Plan verification failed for 1 activation(s)');
+      expect(err.message).toContain(Activation.of(AxisPoint.of(Env, 'Prod')).toString());
+      expect(err.message).toContain('Missing binding for f:Database');
+    }
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Injector,
+  Planner,
+  ModuleDef,
+  DIKey,
+  Functoid,
+  Reflected,
+  PlanningFailure,
+  MissingDependencyError,
+  CircularDependencyError,
+  ConflictingBindingsError,
+} from '../src/distage';
+
+describe('Accumulated Planning Errors', () => {
+  class Config {}
+  class Metrics {}
+  class Cache {}
+
+  @Reflected(Config, Metrics)
+  class Database {
+    constructor(public readonly config: Config, public readonly metrics: Metrics) {}
+  }
+
+  @Reflected(Database, Cache)
+  class UserService {
+    constructor(public readonly db: Database, public readonly cache: Cache) {}
+  }
+
+  @Reflected(Metrics)
+  class Reporter {
+    constructor(public readonly metrics: Metrics) {}
+  }
+
+  class ServiceA {
+    constructor(public readonly b: unknown) {}
+  }
+
+  class ServiceB {
+    constructor(public readonly a: unknown) {}
+  }
+
+  // Missing: Config, Metrics (required twice). Conflicting: Cache. Cycle: ServiceA <-> ServiceB.
+  const module = new ModuleDef()
+    .make(Database).from().type(Database)
+    .make(UserService).from().type(UserService)
+    .make(Reporter).from().type(Reporter)
+    .make(Cache).from().value(new Cache())
+    .make(Cache).from().value(new Cache())
+    .make(ServiceA).from().factory(Functoid.fromFunctionUnsafe((b: unknown) => new ServiceA(b)).withTypes([ServiceB]))
+    .make(ServiceB).from().factory(Functoid.fromFunctionUnsafe((a: unknown) => new ServiceB(a)).withTypes([ServiceA]));
+
+  const roots = [DIKey.of(UserService), DIKey.of(Reporter), DIKey.of(ServiceA)];
+
+  it('should still fail fast in plan()', () => {
+    expect(() => new Injector().plan(module, roots)).toThrow(MissingDependencyError);
+  });
+
+  it('should collect every error across roots and branches', () => {
+    const result = new Injector().planOrErrors(module, roots);
+    expect(result.success).toBe(false);
+    if (result.success) return;
+
+    const failure = result.failure;
+    expect(failure).toBeInstanceOf(PlanningFailure);
+    expect(failure.errors.map(e => e.constructor)).toEqual([
+      MissingDependencyError,
+      MissingDependencyError,
+      ConflictingBindingsError,
+      CircularDependencyError,
+    ]);
+    expect(failure.errors.slice(0, 2).map(e => (e as MissingDependencyError).key.toString()))
+      .toEqual(['f:Config', 'f:Metrics']);
+  });
+
+  it('should report a key that is required in several places once', () => {
+    const result = new Injector().planOrErrors(module, roots);
+    if (result.success) throw new Error('Expected planning to fail');
+
+    const metrics = result.failure.errors.filter(
+      e => e instanceof MissingDependencyError && e.key.equals(DIKey.of(Metrics)),
+    );
+    expect(metrics).toHaveLength(1);
+  });
+
+  it('should attach the dependency path to each error', () => {
+    const result = new Injector().planOrErrors(module, roots);
+    if (result.success) throw new Error('Expected planning to fail');
+
+    const paths = result.failure.errors.map(e => e.path.map(k => k.toString()).join(' -> '));
+    expect(paths).toEqual([
+      'f:UserService -> f:Database -> f:Config',
+      'f:UserService -> f:Database -> f:Metrics',
+      'f:UserService -> f:Cache',
+      'f:ServiceA -> f:ServiceB -> f:ServiceA',
+    ]);
+  });
+
+  it('should group errors by kind', () => {
+    const result = new Injector().planOrErrors(module, roots);
+    if (result.success) throw new Error('Expected planning to fail');
+
+    const byKind = result.failure.byKind();
+    expect(Array.from(byKind.keys())).toEqual([
+      'MissingDependencyError',
+      'ConflictingBindingsError',
+      'CircularDependencyError',
+    ]);
+    expect(byKind.get('MissingDependencyError')).toHaveLength(2);
+
+    const message = result.failure.message;
+    expect(message).toContain('Planning failed with 4 error(s):');
+    expect(message).toContain('MissingDependencyError (2):');
+    expect(message).toContain('      └─ f:Config');
+  });
+
+  it('should return the plan when there are no errors', () => {
+    const valid = new ModuleDef()
+      .make(Config).from().value(new Config())
+      .make(Metrics).from().value(new Metrics())
+      .make(Reporter).from().type(Reporter);
+
+    const result = new Planner().planOrErrors(valid, [DIKey.of(Reporter)]);
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.plan.has(DIKey.of(Metrics))).toBe(true);
+    }
+  });
+
+  it('should keep dropping weak set elements with missing dependencies', () => {
+    class Plugin {}
+
+    @Reflected(Config)
+    class ConfiguredPlugin extends Plugin {
+      constructor(public readonly config: Config) {
+        super();
+      }
+    }
+
+    const withWeak = new ModuleDef()
+      .many(Plugin).makeWeak().from().type(ConfiguredPlugin)
+      .many(Plugin).from().value(new Plugin());
+
+    const result = new Planner().planOrErrors(withWeak, [DIKey.set(Plugin)]);
+    expect(result.success).toBe(true);
+  });
+});
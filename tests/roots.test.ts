@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Injector,
+  ModuleDef,
+  DIKey,
+  Axis,
+  AxisPoint,
+  Activation,
+  Reflected,
+} from '../src/distage';
+
+describe('Root Modes', () => {
+  const Env = Axis.of('Env', ['Prod', 'Test']);
+
+  class Config {}
+  class Metrics {}
+  class Unused {}
+
+  abstract class Database {}
+  class PostgresDatabase extends Database {}
+  class InMemoryDatabase extends Database {}
+
+  @Reflected(Config)
+  class App {
+    constructor(public readonly config: Config) {}
+  }
+
+  const module = new ModuleDef()
+    .make(Config).from().value(new Config())
+    .make(Metrics).from().value(new Metrics())
+    .make(Unused).tagged(Env, 'Test').from().value(new Unused())
+    .make(Database as any).tagged(Env, 'Prod').from().type(PostgresDatabase)
+    .make(Database as any).tagged(Env, 'Test').from().type(InMemoryDatabase)
+    .make(App).from().type(App);
+
+  const prod = Activation.of(AxisPoint.of(Env, 'Prod'));
+  const keys = (list: readonly DIKey[]) => list.map(k => k.toString()).sort();
+
+  describe("'explicit'", () => {
+    it('should plan only the roots and their dependencies by default', () => {
+      const plan = new Injector().plan(module, [DIKey.of(App)], { activation: prod });
+      expect(keys(plan.getSteps().map(s => s.key))).toEqual(['f:App', 'f:Config']);
+    });
+
+    it('should record the pruned keys', () => {
+      const plan = new Injector().plan(module, [DIKey.of(App)], { activation: prod, roots: 'explicit' });
+      expect(keys(plan.getPrunedKeys())).toEqual(['f:Database', 'f:Metrics', 'f:Unused']);
+    });
+  });
+
+  describe("'everything'", () => {
+    it('should plan every key with a binding valid under the activation', () => {
+      const plan = new Injector().plan(module, [], { activation: prod, roots: 'everything' });
+
+      expect(keys(plan.getSteps().map(s => s.key))).toEqual(['f:App', 'f:Config', 'f:Database', 'f:Metrics']);
+    });
+
+    it('should select the activated variant of tagged keys', () => {
+      const locator = new Injector().produce(module, [], { activation: prod, roots: 'everything' });
+      expect(locator.get(DIKey.of(Database as any))).toBeInstanceOf(PostgresDatabase);
+    });
+
+    it('should skip keys whose bindings do not match the activation', () => {
+      const plan = new Injector().plan(module, [], { activation: prod, roots: 'everything' });
+
+      expect(plan.has(DIKey.of(Unused))).toBe(false);
+      expect(keys(plan.getPrunedKeys())).toEqual(['f:Unused']);
+    });
+
+    it('should keep explicit roots', () => {
+      const plan = new Injector().plan(module, [DIKey.of(App)], { roots: 'everything' });
+      expect(Array.from(plan.getRoots()).map(k => k.toString())).toEqual(['f:App', 'f:Config', 'f:Metrics']);
+    });
+
+    it('should not make modified keys roots without a binding', () => {
+      class Unbound {}
+      const modified = new ModuleDef()
+        .make(Config).from().value(new Config())
+        .modify(Unbound).by(unbound => unbound)
+        .modify(Config).by(config => config);
+
+      const plan = new Injector().plan(modified, [], { roots: 'everything' });
+      expect(keys(plan.getSteps().map(s => s.key))).toEqual(['Modified<f:Config, 0>', 'f:Config']);
+    });
+
+    it('should be enabled by the deprecated autoRoots flag', () => {
+      const plan = new Injector().plan(module, [], { activation: prod, autoRoots: true });
+      expect(plan.has(DIKey.of(Metrics))).toBe(true);
+      expect(plan.has(DIKey.of(Unused))).toBe(false);
+    });
+  });
+});
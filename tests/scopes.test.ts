@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Injector,
+  ModuleDef,
+  DIKey,
+  Lazy,
+  Reflected,
+  createSubcontext,
+} from '../src/distage';
+
+describe('Binding Scopes', () => {
+  class Database {}
+
+  @Reflected(Database)
+  class UnitOfWork {
+    constructor(public readonly db: Database) {}
+  }
+
+  @Reflected(UnitOfWork, UnitOfWork)
+  class Transfer {
+    constructor(
+      public readonly from: UnitOfWork,
+      public readonly to: UnitOfWork,
+    ) {}
+  }
+
+  const module = new ModuleDef()
+    .make(Database).from().type(Database)
+    .make(UnitOfWork).scoped('transient').from().type(UnitOfWork)
+    .make(Transfer).from().type(Transfer);
+
+  it('should give every dependent a new transient instance', () => {
+    const transfer = new Injector().produceByType(module, Transfer);
+
+    expect(transfer.from).toBeInstanceOf(UnitOfWork);
+    expect(transfer.to).toBeInstanceOf(UnitOfWork);
+    expect(transfer.from).not.toBe(transfer.to);
+    expect(transfer.from.db).toBe(transfer.to.db);
+  });
+
+  it('should create a new transient instance on every lookup', () => {
+    const locator = new Injector().produce(module, [DIKey.of(Transfer)]);
+
+    const first = locator.get(DIKey.of(UnitOfWork));
+    const second = locator.get(DIKey.of(UnitOfWork));
+    expect(first).not.toBe(second);
+    expect(first.db).toBe(locator.get(DIKey.of(Database)));
+
+    expect(locator.has(DIKey.of(UnitOfWork))).toBe(true);
+    expect(locator.find(DIKey.of(UnitOfWork))).toBeInstanceOf(UnitOfWork);
+    expect(locator.create(DIKey.of(UnitOfWork))).not.toBe(first);
+  });
+
+  it('should list transient keys without instances', () => {
+    const locator = new Injector().produce(module, [DIKey.of(Transfer)]);
+
+    expect(Array.from(locator.keys(), k => k.toString())).toContain('f:UnitOfWork');
+    expect(Array.from(locator.entries(), ([k]) => k.toString())).not.toContain('f:UnitOfWork');
+    expect(locator.instancesOf(UnitOfWork)).toEqual([]);
+  });
+
+  it('should rebuild a transient subgraph with create()', () => {
+    const locator = new Injector().produce(module, [DIKey.of(Transfer)]);
+    const singleton = locator.get(DIKey.of(Transfer));
+
+    const rebuilt = locator.create(DIKey.of(Transfer));
+    expect(rebuilt).not.toBe(singleton);
+    expect(rebuilt.from).not.toBe(singleton.from);
+    expect(rebuilt.from.db).toBe(singleton.from.db);
+    expect(locator.get(DIKey.of(Transfer))).toBe(singleton);
+
+    class Unplanned {}
+    expect(() => locator.create(DIKey.of(Unplanned))).toThrow('No plan step found for key: f:Unplanned');
+  });
+
+  it('should mark transient steps in the plan', () => {
+    const plan = new Injector().plan(module, [DIKey.of(Transfer)]);
+
+    expect(plan.getStep(DIKey.of(UnitOfWork))!.scope).toBe('transient');
+    expect(plan.getStep(DIKey.of(Transfer))!.scope).toBe('singleton');
+    expect(plan.toString()).toContain('f:UnitOfWork <- [f:Database] (transient)');
+
+    const singletons = new ModuleDef()
+      .make(Database).from().type(Database)
+      .make(UnitOfWork).from().type(UnitOfWork)
+      .make(Transfer).from().type(Transfer);
+    const diff = plan.diff(new Injector().plan(singletons, [DIKey.of(Transfer)]));
+    expect(diff.changed.map(c => [c.key.toString(), c.reasons])).toEqual([['f:UnitOfWork', ['scope']]]);
+  });
+
+  it('should make aliases of a transient binding transient', () => {
+    abstract class Work {}
+    class Job extends Work {}
+
+    const aliased = new ModuleDef().make(Job).scoped('transient').aliases(Work).from().type(Job);
+    const locator = new Injector().produce(aliased, [DIKey.of(Work)]);
+
+    expect(locator.get(DIKey.of(Work))).toBeInstanceOf(Job);
+    expect(locator.get(DIKey.of(Work))).not.toBe(locator.get(DIKey.of(Work)));
+  });
+
+  it('should resolve transient dependencies in async production, subcontexts and lazily', async () => {
+    @Reflected(Lazy(UnitOfWork))
+    class Worker {
+      constructor(public readonly work: () => UnitOfWork) {}
+    }
+
+    const asyncModule = module.overriddenBy(new ModuleDef()
+      .make(Database).from().func([], async () => new Database())
+      .make(Worker).from().type(Worker));
+    const locator = await new Injector().produceAsync(asyncModule, [DIKey.of(Transfer), DIKey.of(Worker)]);
+
+    const transfer = locator.get(DIKey.of(Transfer));
+    expect(transfer.from).not.toBe(transfer.to);
+
+    const worker = locator.get(DIKey.of(Worker));
+    expect(worker.work()).not.toBe(worker.work());
+
+    const subcontext = createSubcontext(locator, new ModuleDef(), []);
+    expect(subcontext.get(DIKey.of(UnitOfWork))).not.toBe(subcontext.get(DIKey.of(UnitOfWork)));
+    expect(subcontext.create(DIKey.of(UnitOfWork))).toBeInstanceOf(UnitOfWork);
+  });
+
+  it('should reject bindings that cannot be transient', () => {
+    expect(() => new ModuleDef().make(Database).scoped('transient').from().value(new Database()))
+      .toThrow('Cannot make f:Database transient: Instance bindings are not supported');
+    expect(() => new ModuleDef().make(Database).scoped('transient').from().func([], async () => new Database()))
+      .toThrow('Cannot make f:Database transient: async factories are not supported');
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { Injector, ModuleDef, DIKey, Functoid } from '../src/distage';
+import { Injector, ModuleDef, DIKey, Functoid, MissingDependencyError } from '../src/distage';
 
 // Test classes
 interface Plugin {
@@ -103,4 +103,32 @@ describe('Set Bindings', () => {
     const plugins = locator.getSet(AuthPlugin as any);
     expect(plugins.size).toBe(1); // Only AuthPlugin, not PluginWithDependency
   });
+
+  it('should let other dependents reach the dependencies of a dropped weak element', () => {
+    class Missing {}
+    class Storage {
+      constructor(public readonly missing: Missing) {}
+    }
+    class StoragePlugin implements Plugin {
+      name = 'storage';
+      constructor(public readonly storage: Storage) {}
+    }
+    class Backup {
+      constructor(public readonly storage: Storage) {}
+    }
+
+    const module = new ModuleDef()
+      .make(Storage).from().factory(Functoid.fromConstructor(Storage).withTypes([Missing]))
+      .make(Backup).from().factory(Functoid.fromConstructor(Backup).withTypes([Storage]))
+      .many(AuthPlugin).from().type(AuthPlugin)
+      .many(AuthPlugin).makeWeak().from().factory(Functoid.fromConstructor(StoragePlugin).withTypes([Storage]));
+
+    // Storage can't be planned for the weak element, nor for Backup: it is missing a binding, not in a cycle
+    const result = new Injector().planOrErrors(module, [DIKey.set(AuthPlugin), DIKey.of(Backup)]);
+    expect(result.success).toBe(false);
+    expect(result.success ? [] : result.failure.errors.map(error => error.constructor)).toEqual([MissingDependencyError]);
+
+    const plugins = new Injector().produce(module, [DIKey.set(AuthPlugin)]).getSet(AuthPlugin);
+    expect(Array.from(plugins, plugin => plugin.name)).toEqual(['auth']);
+  });
 });
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Injector,
+  ModuleDef,
+  DIKey,
+  Axis,
+  AxisPoint,
+  Activation,
+  BindingKind,
+  Reflected,
+  createSubcontext,
+} from '../src/distage';
+
+describe('Subtype Lookup', () => {
+  const Env = Axis.of('Env', ['Prod', 'Test']);
+  const DatabaseToken = Symbol('Database');
+
+  abstract class Database {}
+  class PostgresDatabase extends Database {}
+  class InMemoryDatabase extends Database {}
+
+  abstract class Plugin {}
+  class AuthPlugin extends Plugin {}
+  class MetricsPlugin extends Plugin {}
+
+  @Reflected(Database)
+  class App {
+    constructor(public readonly db: Database) {}
+  }
+
+  describe('aliases()', () => {
+    it('should expose a binding under its supertypes and tokens', () => {
+      const module = new ModuleDef()
+        .make(PostgresDatabase).aliases(Database, DatabaseToken).from().type(PostgresDatabase)
+        .make(App).from().type(App);
+
+      const locator = new Injector().produce(
+        module,
+        [DIKey.of(App), DIKey.token(DatabaseToken)],
+      );
+      const db = locator.get(DIKey.of(PostgresDatabase));
+
+      expect(locator.get(DIKey.of(App)).db).toBe(db);
+      expect(locator.get(DIKey.token(DatabaseToken))).toBe(db);
+    });
+
+    it('should add alias bindings with the same tags and origin', () => {
+      const module = new ModuleDef()
+        .make(PostgresDatabase).tagged(Env, 'Prod').aliases(Database).from().type(PostgresDatabase);
+
+      const [binding, alias] = module.getBindings();
+      expect(alias.kind).toBe(BindingKind.Alias);
+      expect(alias.key.equals(DIKey.of(Database))).toBe(true);
+      expect(alias.tags.getTags().get(Env)).toBe('Prod');
+      expect(alias.origin).toBe(binding.origin);
+    });
+
+    it('should select the alias matching the activation', () => {
+      const module = new ModuleDef()
+        .make(PostgresDatabase).tagged(Env, 'Prod').aliases(Database).from().type(PostgresDatabase)
+        .make(InMemoryDatabase).tagged(Env, 'Test').aliases(Database).from().type(InMemoryDatabase)
+        .make(App).from().type(App);
+
+      const locator = new Injector().produce(module, [DIKey.of(App)], {
+        activation: Activation.of(AxisPoint.of(Env, 'Test')),
+      });
+      expect(locator.get(DIKey.of(App)).db).toBeInstanceOf(InMemoryDatabase);
+    });
+
+    it('should keep the @Id of the binding unless a DIKey is given', () => {
+      const module = new ModuleDef()
+        .make(PostgresDatabase).named('primary')
+        .aliases(Database, DIKey.named(Database, 'main'))
+        .from().type(PostgresDatabase);
+
+      const locator = new Injector().produce(
+        module,
+        [DIKey.named(Database, 'primary'), DIKey.named(Database, 'main')],
+      );
+      expect(locator.get(DIKey.named(Database, 'primary')))
+        .toBe(locator.get(DIKey.named(Database, 'main')));
+    });
+
+    it('should only accept supertypes of the binding at compile time', () => {
+      class Cache {
+        readonly entries = new Map<string, string>();
+      }
+      class RedisCache extends Cache {
+        readonly url = 'redis://';
+      }
+      class Queue {
+        readonly jobs: string[] = [];
+      }
+
+      const rejected = (builder: ModuleDef) => {
+        builder.make(RedisCache).aliases(Cache, DatabaseToken, DIKey.named(Cache, 'main')).from().type(RedisCache);
+        // @ts-expect-error Queue is not a supertype of RedisCache
+        builder.make(RedisCache).aliases(Queue).from().type(RedisCache);
+        // @ts-expect-error a key of Queue is not a supertype of RedisCache
+        builder.make(RedisCache).aliases(Cache, DIKey.of(Queue)).from().type(RedisCache);
+      };
+
+      expect(rejected).toBeTypeOf('function');
+    });
+  });
+
+  describe('findAllAssignableTo()', () => {
+    const module = new ModuleDef()
+      .make(AuthPlugin).aliases(Plugin).from().type(AuthPlugin)
+      .make(MetricsPlugin).from().type(MetricsPlugin)
+      .make(PostgresDatabase).from().type(PostgresDatabase);
+
+    const roots = [DIKey.of(AuthPlugin), DIKey.of(Plugin), DIKey.of(MetricsPlugin), DIKey.of(PostgresDatabase)];
+
+    it('should find instances by superclass, once each', () => {
+      const locator = new Injector().produce(module, roots);
+      const plugins = locator.findAllAssignableTo(Plugin);
+
+      expect(plugins).toHaveLength(2);
+      expect(plugins).toContain(locator.get(DIKey.of(AuthPlugin)));
+      expect(plugins).toContain(locator.get(DIKey.of(MetricsPlugin)));
+    });
+
+    it('should find instances by their own class', () => {
+      const locator = new Injector().produce(module, roots);
+      expect(locator.findAllAssignableTo(PostgresDatabase)).toEqual([locator.get(DIKey.of(PostgresDatabase))]);
+      expect(locator.findAllAssignableTo(InMemoryDatabase)).toEqual([]);
+    });
+
+    it('should search subcontexts and their parents', () => {
+      const parent = new Injector().produce(module, roots);
+      const child = createSubcontext(
+        parent,
+        new ModuleDef().make(InMemoryDatabase).from().type(InMemoryDatabase),
+        [DIKey.of(InMemoryDatabase)],
+      );
+
+      const databases = child.findAllAssignableTo(Database);
+      expect(databases).toHaveLength(2);
+      expect(databases).toContain(child.get(DIKey.of(InMemoryDatabase)));
+      expect(databases).toContain(parent.get(DIKey.of(PostgresDatabase)));
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ModuleDef,
+  DIKey,
+  Axis,
+  AxisPoint,
+  Activation,
+  UnusedBindingsAnalyzer,
+  UnusedBindingsError,
+  PlanVerificationError,
+  Reflected,
+} from '../src/distage';
+
+describe('Unused Bindings', () => {
+  const Env = Axis.of('Env', ['Prod', 'Test']);
+
+  class Config {}
+  class Metrics {}
+  class Legacy {}
+
+  abstract class Database {}
+
+  @Reflected(Config)
+  class PostgresDatabase extends Database {
+    constructor(public readonly config: Config) {
+      super();
+    }
+  }
+
+  class InMemoryDatabase extends Database {}
+
+  class Plugin {}
+
+  @Reflected(Metrics)
+  class MetricsPlugin extends Plugin {
+    constructor(public readonly metrics: Metrics) {
+      super();
+    }
+  }
+
+  @Reflected(Database)
+  class App {
+    constructor(public readonly db: Database) {}
+  }
+
+  const module = new ModuleDef()
+    .make(Config).from().value(new Config())
+    .make(Database as any).tagged(Env, 'Prod').from().type(PostgresDatabase)
+    .make(Database as any).tagged(Env, 'Test').from().type(InMemoryDatabase)
+    .make(App).from().type(App)
+    .make(Legacy).from().value(new Legacy())
+    .make(Legacy).named('old').from().alias(Legacy)
+    .many(Plugin).from().value(new Plugin())
+    .many(Plugin).makeWeak().from().type(MetricsPlugin);
+
+  const [config, prodDb, testDb, , legacy, legacyAlias, , weakPlugin] = module.getBindings();
+  const roots = [DIKey.of(App), DIKey.set(Plugin)];
+
+  it('should list bindings not selected under an activation', () => {
+    const report = new UnusedBindingsAnalyzer().analyze(
+      module,
+      roots,
+      Activation.of(AxisPoint.of(Env, 'Test')),
+    );
+
+    expect(report.unused).toEqual([config, prodDb, legacy]);
+    expect(report.isEmpty()).toBe(false);
+  });
+
+  it('should list weak set elements that are always dropped', () => {
+    const report = new UnusedBindingsAnalyzer().analyzeAll(module, roots, [Env]);
+    expect(report.droppedWeakElements).toEqual([weakPlugin]);
+  });
+
+  it('should list aliases whose target is never reached', () => {
+    const report = new UnusedBindingsAnalyzer().analyzeAll(module, roots, [Env]);
+    expect(report.unreachedAliases).toEqual([legacyAlias]);
+  });
+
+  it('should only report bindings unused under every activation', () => {
+    const report = new UnusedBindingsAnalyzer().analyzeAll(module, roots, [Env]);
+    expect(report.unused).toEqual([legacy]);
+    expect(report.unused).not.toContain(testDb);
+  });
+
+  it('should describe findings as warnings', () => {
+    const warnings = new UnusedBindingsAnalyzer().analyzeAll(module, roots, [Env]).warnings();
+    expect(warnings).toHaveLength(3);
+    expect(warnings[0]).toMatch(/^Unused binding: Instance binding for f:Legacy \(defined at .*unused-bindings\.test\.ts/);
+    expect(warnings[1]).toMatch(/^Weak set element is always dropped: Class element of Set<f:Plugin>/);
+    expect(warnings[2]).toMatch(/^Alias target f:Legacy is never reached: Alias binding for f:Legacy@Id\("old"\)/);
+  });
+
+  it('should fail a strict check when bindings are unused', () => {
+    const report = new UnusedBindingsAnalyzer().analyzeAll(module, roots, [Env]);
+    expect(() => report.assertEmpty()).toThrow(UnusedBindingsError);
+    expect(() => report.assertEmpty()).toThrow('Found 3 unused binding(s)');
+
+    const used = new UnusedBindingsAnalyzer().analyzeAll(module, [...roots, DIKey.named(Legacy, 'old')], [Env]);
+    expect(used.unused).toEqual([]);
+    expect(used.unreachedAliases).toEqual([]);
+  });
+
+  it('should refuse to analyze modules that cannot be planned', () => {
+    const broken = new ModuleDef()
+      .make(Database as any).tagged(Env, 'Prod').from().type(PostgresDatabase)
+      .make(App).from().type(App);
+
+    expect(() => new UnusedBindingsAnalyzer().analyzeAll(broken, [DIKey.of(App)], [Env]))
+      .toThrow(PlanVerificationError);
+  });
+});